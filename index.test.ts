@@ -1,4 +1,5 @@
-import { describe, test, expect, beforeEach } from "vitest";
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { getSnapshot, onSnapshot } from "mobx-state-tree";
 import {
   ActiveMetaContext,
   makeDefaultActiveMetaContext,
@@ -13,6 +14,26 @@ import {
   type ArchiveCreatedEvent,
   type LaneStatusChangedEvent,
   type LanePinChangedEvent,
+  type RelationLinkedEvent,
+  type KnowledgeObjectRemovedEvent,
+  registerKnowledgeObjectKind,
+  unregisterKnowledgeObjectKind,
+  listKnowledgeObjectKinds,
+  types,
+  type EvidenceStatusChangedEvent,
+  type KnowledgeObjectsBatchUpsertedEvent,
+  registerAssumptionUpdateRule,
+  unregisterAssumptionUpdateRule,
+  registerConstraintCheck,
+  unregisterConstraintCheck,
+  registerContradictionDetector,
+  unregisterContradictionDetector,
+  registerScorer,
+  unregisterScorer,
+  registerEmbedder,
+  unregisterEmbedder,
+  registerSimilarity,
+  unregisterSimilarity,
 } from "./index";
 
 describe("ActiveMetaContext", () => {
@@ -780,7 +801,7 @@ describe("ActiveMetaContext", () => {
 
       ctx.synthesizeWorkingMemory({ tokenBudget: 600, archiveRawItems: true });
 
-      // Evidence doesn't have status, so it should still exist
+      // Pruning never archives evidence; retract it explicitly instead
       expect(ctx.evidence.has("e-1")).toBe(true);
     });
 
@@ -1602,4 +1623,2267 @@ describe("ActiveMetaContext", () => {
       });
     });
   });
+
+  describe("Relations", () => {
+    test("should link and traverse typed relations", () => {
+      ctx.upsertEvidence({ id: "e-1", summary: "Canary is healthy" });
+      ctx.upsertDecision({ id: "d-1", statement: "Roll out to 100%" });
+
+      const id = ctx.link({ kind: "evidence", id: "e-1" }, "supports", {
+        kind: "decision",
+        id: "d-1",
+      });
+
+      expect(id).toBe("supports:evidence:e-1->decision:d-1");
+      expect(ctx.relations.size).toBe(1);
+      expect(ctx.getNeighbors({ kind: "decision", id: "d-1" })).toEqual([
+        { kind: "evidence", id: "e-1", relationType: "supports", direction: "in" },
+      ]);
+      expect(ctx.getRelations({ kind: "evidence", id: "e-1" }, { direction: "in" })).toHaveLength(
+        0,
+      );
+      expect(
+        ctx.getRelations({ kind: "evidence", id: "e-1" }, { type: "contradicts" }),
+      ).toHaveLength(0);
+    });
+
+    test("should be idempotent and unlink", () => {
+      const from = { kind: "evidence" as const, id: "e-1" };
+      const to = { kind: "decision" as const, id: "d-1" };
+      ctx.link(from, "supports", to);
+      ctx.link(from, "supports", to, { note: "canary" });
+
+      expect(ctx.relations.size).toBe(1);
+      expect(ctx.getRelations(from)[0]?.note).toBe("canary");
+
+      ctx.unlink(from, "supports", to);
+      expect(ctx.relations.size).toBe(0);
+    });
+
+    test("should emit relation events", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+      const from = { kind: "evidence" as const, id: "e-1" };
+      const to = { kind: "decision" as const, id: "d-1" };
+
+      ctx.link(from, "supports", to);
+      ctx.link(from, "supports", to);
+      ctx.unlink(from, "supports", to);
+      ctx.unlink(from, "supports", to);
+
+      expect(events.map((e) => e.type)).toEqual(["relation:linked", "relation:unlinked"]);
+      const linked = events[0] as RelationLinkedEvent;
+      expect(linked.relationType).toBe("supports");
+      expect(linked.from).toEqual(from);
+      expect(linked.to).toEqual(to);
+    });
+
+    test("should survive snapshots", () => {
+      ctx.link({ kind: "evidence", id: "e-1" }, "derivedFrom", { kind: "evidence", id: "e-0" });
+
+      const restored = ActiveMetaContext.create(getSnapshot(ctx));
+
+      expect(restored.getNeighbors({ kind: "evidence", id: "e-0" })).toHaveLength(1);
+    });
+
+    test("should pull related items into a lane selection", () => {
+      ctx.ensureLane("ops", "Ops");
+      ctx.lanes.get("ops")?.setIncludeTagsAny([{ key: "lane", value: "ops" }]);
+      ctx.upsertDecision({
+        id: "d-1",
+        statement: "Roll out",
+        tags: [{ key: "lane", value: "ops" }],
+      });
+      ctx.upsertEvidence({ id: "e-1", summary: "Canary is healthy" });
+      ctx.link({ kind: "evidence", id: "e-1" }, "supports", { kind: "decision", id: "d-1" });
+
+      ctx.refreshLaneSelection("ops");
+      expect(ctx.lanes.get("ops")?.window.selected.map((r) => r.id)).toEqual(["d-1"]);
+
+      ctx.lanes.get("ops")?.setWindowPolicy({ expandRelations: ["supports"] });
+      ctx.refreshLaneSelection("ops");
+
+      const selected = ctx.lanes.get("ops")!.window.selected;
+      expect(selected.map((r) => r.id)).toEqual(["d-1", "e-1"]);
+      expect(selected[1]!.score).toBeCloseTo(selected[0]!.score * 0.9);
+    });
+  });
+  describe("Removing Knowledge Objects", () => {
+    beforeEach(() => {
+      ctx.ensureLane("ops", "Ops");
+      ctx.upsertEvidence({ id: "e-1", summary: "Disk full" });
+      ctx.upsertDecision({ id: "d-1", statement: "Expand volume" });
+      ctx.pinInLane("ops", "evidence", "e-1");
+      ctx.link({ kind: "evidence", id: "e-1" }, "supports", { kind: "decision", id: "d-1" });
+      ctx.refreshAllLanes();
+      ctx.mergeLanesToActiveWindow();
+    });
+
+    test("should remove the item and clean up pins, selections and relations", () => {
+      expect(ctx.removeKnowledgeObject("evidence", "e-1")).toBe(true);
+
+      expect(ctx.evidence.has("e-1")).toBe(false);
+      expect(ctx.lanes.get("ops")?.pinned).toHaveLength(0);
+      expect(ctx.lanes.get("ops")?.window.selected.some((r) => r.id === "e-1")).toBe(false);
+      expect(ctx.activeWindow.selected.some((r) => r.id === "e-1")).toBe(false);
+      expect(ctx.relations.size).toBe(0);
+      expect(ctx.tombstones).toHaveLength(0);
+    });
+
+    test("should return false for unknown items", () => {
+      expect(ctx.removeKnowledgeObject("goal", "missing")).toBe(false);
+    });
+
+    test("should record a tombstone when requested", () => {
+      ctx.removeKnowledgeObject("evidence", "e-1", { tombstone: true, reason: "duplicate" });
+
+      expect(ctx.tombstones).toHaveLength(1);
+      const tomb = ctx.tombstones[0]!;
+      expect(tomb.kind).toBe("evidence");
+      expect(tomb.id).toBe("e-1");
+      expect(tomb.reason).toBe("duplicate");
+      expect((tomb.item as { summary: string }).summary).toBe("Disk full");
+    });
+
+    test("should emit knowledgeObject:removed after relation cleanup", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+
+      ctx.removeKnowledgeObject("evidence", "e-1", { tombstone: true });
+
+      expect(events.map((e) => e.type)).toEqual(["relation:unlinked", "knowledgeObject:removed"]);
+      const removed = events[1] as KnowledgeObjectRemovedEvent;
+      expect(removed.kind).toBe("evidence");
+      expect(removed.id).toBe("e-1");
+      expect(removed.lanesCleaned).toEqual(["ops"]);
+      expect(removed.relationsRemoved).toBe(1);
+      expect(removed.tombstoned).toBe(true);
+      expect(removed.item.summary).toBe("Disk full");
+    });
+  });
+  describe("Custom Knowledge Object Kinds", () => {
+    const Risk = types.model("Risk", {
+      id: types.identifier,
+      title: types.string,
+      severity: types.optional(
+        types.enumeration<"low" | "medium" | "high" | "critical">("RiskSeverity", [
+          "low",
+          "medium",
+          "high",
+          "critical",
+        ]),
+        "low",
+      ),
+      status: types.optional(types.enumeration(["active", "closed"]), "active"),
+      tags: types.optional(
+        types.array(types.model({ key: types.string, value: types.maybe(types.string) })),
+        [],
+      ),
+    });
+
+    beforeEach(() => {
+      registerKnowledgeObjectKind({
+        kind: "risk",
+        model: Risk,
+        sectionLabel: "Risks",
+        summarize: (risk) => `${risk.title} (${risk.severity})`,
+      });
+    });
+
+    afterEach(() => {
+      unregisterKnowledgeObjectKind("risk");
+    });
+
+    test("should reject built-in and duplicate kinds", () => {
+      expect(() =>
+        registerKnowledgeObjectKind({
+          kind: "goal",
+          model: Risk,
+          sectionLabel: "Goals",
+          summarize: () => "",
+        }),
+      ).toThrow(/built-in/);
+      expect(() =>
+        registerKnowledgeObjectKind({
+          kind: "risk",
+          model: Risk,
+          sectionLabel: "Risks",
+          summarize: () => "",
+        }),
+      ).toThrow(/already registered/);
+      expect(listKnowledgeObjectKinds()).toContain("risk");
+    });
+
+    test("should validate, default and store custom items", () => {
+      const events: KnowledgeObjectUpsertedEvent[] = [];
+      ctx.hooks.on("knowledgeObject:upserted", (e) => events.push(e));
+
+      ctx.upsertKnowledgeObject("risk", { id: "r-1", title: "Vendor lock-in" });
+
+      expect(ctx.getCustomItem("risk", "r-1")).toMatchObject({
+        id: "r-1",
+        severity: "low",
+        status: "active",
+      });
+      expect(events[0]?.kind).toBe("risk");
+      expect(events[0]?.isNew).toBe(true);
+      expect(() => ctx.upsertKnowledgeObject("risk", { id: "r-2", severity: "huge" })).toThrow();
+      expect(() => ctx.upsertKnowledgeObject("nope", { id: "x" })).toThrow(/Unknown/);
+    });
+
+    test("should select, synthesize and build payloads with custom kinds", () => {
+      const ctxWithLanes = makeDefaultActiveMetaContext("custom-kinds");
+      ctxWithLanes.upsertKnowledgeObject("risk", {
+        id: "r-1",
+        title: "Vendor lock-in",
+        severity: "high",
+        tags: [{ key: "lane", value: "task" }],
+      });
+      ctxWithLanes.upsertKnowledgeObject("risk", {
+        id: "r-2",
+        title: "Closed risk",
+        status: "closed",
+        tags: [{ key: "lane", value: "task" }],
+      });
+      ctxWithLanes.upsertGoal({ id: "g-1", title: "Ship", tags: [{ key: "lane", value: "task" }] });
+
+      ctxWithLanes.synthesizeFromLanes();
+
+      expect(ctxWithLanes.activeWindow.selected.map((r) => r.id).sort()).toEqual(["g-1", "r-1"]);
+      expect(ctxWithLanes.workingMemory.text).toContain("Risks:\n- Vendor lock-in (high)");
+      expect(ctxWithLanes.buildLLMContextPayload().custom).toEqual({
+        risk: ["Vendor lock-in (high)"],
+      });
+    });
+
+    test("should use a custom scorer and isActive", () => {
+      unregisterKnowledgeObjectKind("risk");
+      registerKnowledgeObjectKind({
+        kind: "risk",
+        model: Risk,
+        sectionLabel: "Risks",
+        summarize: (risk) => risk.title,
+        score: (risk, { severityScore }) => 100 * severityScore(risk.severity),
+        isActive: (risk) => risk.severity !== "low",
+      });
+      ctx.ensureLane("risks", "Risks");
+      ctx.upsertKnowledgeObject("risk", { id: "r-1", title: "Low", severity: "low" });
+      ctx.upsertKnowledgeObject("risk", { id: "r-2", title: "Critical", severity: "critical" });
+
+      ctx.refreshLaneSelection("risks");
+
+      const selected = ctx.lanes.get("risks")!.window.selected;
+      expect(selected.map((r) => r.id)).toEqual(["r-2"]);
+      expect(selected[0]!.score).toBe(400);
+    });
+
+    test("should pin, relate and remove custom items", () => {
+      ctx.ensureLane("risks", "Risks");
+      ctx.upsertKnowledgeObject("risk", { id: "r-1", title: "Vendor lock-in" });
+      ctx.pinInLane("risks", "risk", "r-1");
+      ctx.link({ kind: "evidence", id: "e-1" }, "supports", { kind: "risk", id: "r-1" });
+
+      expect(ctx.removeKnowledgeObject("risk", "r-1", { tombstone: true })).toBe(true);
+      expect(ctx.getCustomItem("risk", "r-1")).toBeUndefined();
+      expect(ctx.lanes.get("risks")?.pinned).toHaveLength(0);
+      expect(ctx.relations.size).toBe(0);
+      expect((ctx.tombstones[0]?.item as { title: string }).title).toBe("Vendor lock-in");
+    });
+
+    test("should survive snapshots", () => {
+      ctx.upsertKnowledgeObject("risk", { id: "r-1", title: "Vendor lock-in" });
+      const restored = ActiveMetaContext.create(getSnapshot(ctx));
+      expect(restored.summarizeRef("risk", "r-1")).toBe("Vendor lock-in (low)");
+    });
+  });
+  describe("Evidence Status Lifecycle", () => {
+    beforeEach(() => {
+      ctx.ensureLane("ops", "Ops");
+      ctx.upsertEvidence({ id: "e-1", summary: "Latency degraded", severity: "high" });
+      ctx.upsertEvidence({ id: "e-2", summary: "Latency recovered" });
+    });
+
+    test("should default to active", () => {
+      expect(ctx.evidence.get("e-1")?.status).toBe("active");
+      expect(ctx.isActive("evidence", "e-1")).toBe(true);
+    });
+
+    test("should record status, reason and timestamp", () => {
+      ctx.setEvidenceStatus("e-1", "retracted", "sensor fault");
+
+      const e = ctx.evidence.get("e-1");
+      expect(e?.status).toBe("retracted");
+      expect(e?.statusReason).toBe("sensor fault");
+      expect(e?.statusChangedAt).toBeDefined();
+      expect(ctx.isActive("evidence", "e-1")).toBe(false);
+    });
+
+    test("should exclude non-active evidence from lane selection", () => {
+      ctx.pinInLane("ops", "evidence", "e-2");
+      ctx.setEvidenceStatus("e-1", "retracted");
+      ctx.setEvidenceStatus("e-2", "superseded");
+
+      ctx.refreshLaneSelection("ops");
+
+      expect(ctx.lanes.get("ops")?.window.selected).toHaveLength(0);
+    });
+
+    test("should include non-active evidence when the policy asks for it", () => {
+      ctx.setEvidenceStatus("e-1", "retracted");
+      ctx.lanes.get("ops")?.setWindowPolicy({ includeInactiveEvidence: true });
+
+      ctx.refreshLaneSelection("ops");
+
+      expect(ctx.lanes.get("ops")?.window.selected.map((r) => r.id)).toContain("e-1");
+    });
+
+    test("should treat status changes by patch and upsert like setEvidenceStatus", () => {
+      const events: EvidenceStatusChangedEvent[] = [];
+      ctx.hooks.on("evidence:statusChanged", (e) => events.push(e));
+      ctx.setEvidenceStatus("e-1", "superseded", "newer reading");
+
+      ctx.patchEvidence("e-1", { status: "retracted" });
+      expect(ctx.evidence.get("e-1")?.statusReason).toBeUndefined();
+
+      ctx.upsertEvidence({
+        id: "e-1",
+        summary: "Latency degraded",
+        status: "active",
+        statusReason: "sensor fixed",
+      });
+      ctx.patchEvidence("e-1", { severity: "low" });
+
+      expect(events.map((e) => [e.oldStatus, e.newStatus, e.reason])).toEqual([
+        ["active", "superseded", "newer reading"],
+        ["superseded", "retracted", undefined],
+        ["retracted", "active", "sensor fixed"],
+      ]);
+      expect(ctx.evidence.get("e-1")?.statusReason).toBe("sensor fixed");
+      expect(ctx.evidence.get("e-1")?.statusChangedAt).toBeDefined();
+    });
+
+    test("should emit evidence:statusChanged only on change", () => {
+      const events: EvidenceStatusChangedEvent[] = [];
+      ctx.hooks.on("evidence:statusChanged", (e) => events.push(e));
+
+      ctx.setEvidenceStatus("e-1", "retracted", "sensor fault");
+      ctx.setEvidenceStatus("e-1", "retracted");
+      ctx.setEvidenceStatus("missing", "retracted");
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        evidenceId: "e-1",
+        oldStatus: "active",
+        newStatus: "retracted",
+        reason: "sensor fault",
+      });
+    });
+  });
+  describe("Patch Updates", () => {
+    test("should merge fields and keep omitted ones", () => {
+      ctx.upsertGoal({
+        id: "g-1",
+        title: "Ship v2",
+        description: "Major release",
+        tags: [{ key: "lane", value: "task" }],
+      });
+      const createdAt = ctx.goals.get("g-1")!.createdAt;
+
+      expect(ctx.patchGoal("g-1", { priority: "p0" })).toBe(true);
+
+      const goal = ctx.goals.get("g-1")!;
+      expect(goal.priority).toBe("p0");
+      expect(goal.title).toBe("Ship v2");
+      expect(goal.description).toBe("Major release");
+      expect(goal.tags.map((t) => t.value)).toEqual(["task"]);
+      expect(goal.createdAt).toBe(createdAt);
+    });
+
+    test("should keep the node instance and bump updatedAt", async () => {
+      ctx.upsertEvidence({ id: "e-1", summary: "Disk 80% full", provenance: { source: "tool" } });
+      const node = ctx.evidence.get("e-1")!;
+      const updatedAt = node.updatedAt;
+      await new Promise((resolve) => setTimeout(resolve, 2));
+
+      ctx.patchEvidence("e-1", { severity: "high" });
+
+      expect(ctx.evidence.get("e-1")).toBe(node);
+      expect(node.severity).toBe("high");
+      expect(node.provenance.source).toBe("tool");
+      expect(node.updatedAt).not.toBe(updatedAt);
+    });
+
+    test("should not allow changing id or createdAt", () => {
+      ctx.upsertDecision({
+        id: "d-1",
+        statement: "Use Postgres",
+        createdAt: "2024-01-01T00:00:00Z",
+      });
+
+      ctx.patchKnowledgeObject("decision", "d-1", { id: "d-2", createdAt: "2025-01-01T00:00:00Z" });
+
+      expect(ctx.decisions.has("d-2")).toBe(false);
+      expect(ctx.decisions.get("d-1")?.createdAt).toBe("2024-01-01T00:00:00Z");
+    });
+
+    test("should return false for missing items", () => {
+      expect(ctx.patchQuestion("missing", { priority: "p0" })).toBe(false);
+      expect(ctx.patchKnowledgeObject("nope", "x", {})).toBe(false);
+    });
+
+    test("should emit an upsert event listing changed fields", () => {
+      ctx.upsertConstraint({ id: "c-1", statement: "No downtime" });
+      const events: KnowledgeObjectUpsertedEvent[] = [];
+      ctx.hooks.on("knowledgeObject:upserted", (e) => events.push(e));
+
+      ctx.patchConstraint("c-1", { priority: "p0", statement: "No downtime" });
+
+      expect(events).toHaveLength(1);
+      expect(events[0]?.isNew).toBe(false);
+      expect(events[0]?.changedFields).toEqual(["priority"]);
+    });
+
+    test("should list changed fields on full upserts of existing items", () => {
+      const events: KnowledgeObjectUpsertedEvent[] = [];
+      ctx.hooks.on("knowledgeObject:upserted", (e) => events.push(e));
+
+      ctx.upsertGoal({ id: "g-1", title: "A", createdAt: "2024-01-01T00:00:00Z" });
+      ctx.upsertGoal({ id: "g-1", title: "B", createdAt: "2024-01-01T00:00:00Z" });
+
+      expect(events[0]?.changedFields).toBeUndefined();
+      expect(events[1]?.changedFields).toEqual(["title"]);
+    });
+
+    test("should bump updatedAt on status changes of every kind", () => {
+      ctx.upsertQuestion({ id: "q-1", question: "Why?", updatedAt: "2024-01-01T00:00:00Z" });
+      ctx.questions.get("q-1")?.setStatus("done");
+      expect(ctx.questions.get("q-1")?.updatedAt).not.toBe("2024-01-01T00:00:00Z");
+    });
+  });
+  describe("Revision History", () => {
+    beforeEach(() => {
+      ctx.setRevisionPolicy({ enabled: true });
+    });
+
+    test("should not record revisions when disabled", () => {
+      ctx.setRevisionPolicy({ enabled: false });
+      ctx.upsertGoal({ id: "g-1", title: "Ship" });
+      expect(ctx.getRevisions("goal", "g-1")).toEqual([]);
+    });
+
+    test("should record one revision per status-changing upsert or patch", () => {
+      ctx.upsertEvidence({ id: "e-1", summary: "Latency 300ms" });
+      ctx.upsertEvidence({ id: "e-1", summary: "Latency 300ms", status: "retracted" });
+      ctx.patchEvidence("e-1", { status: "active", statusReason: "sensor fixed" });
+
+      const revs = ctx.getRevisions("evidence", "e-1");
+      expect(revs.map((r) => r.change)).toEqual(["created", "updated", "updated"]);
+      expect(revs[1]!.changes.map((c) => c.field)).toContain("status");
+      expect(revs[2]!.snapshot).toMatchObject({ status: "active", statusReason: "sensor fixed" });
+    });
+
+    test("should record who changed what through upserts and patches", () => {
+      ctx.upsertEvidence({ id: "e-1", summary: "Latency 300ms" }, { by: "monitor" });
+      ctx.patchEvidence("e-1", { summary: "Latency 900ms", severity: "high" }, { by: "alice" });
+
+      const revs = ctx.getRevisions("evidence", "e-1");
+      expect(revs.map((r) => [r.rev, r.change, r.by])).toEqual([
+        [1, "created", "monitor"],
+        [2, "updated", "alice"],
+      ]);
+      const fields = revs[1]!.changes.map((c) => c.field).filter((f) => f !== "updatedAt");
+      expect(fields).toEqual(["summary", "severity"]);
+      expect(revs[1]!.changes.find((c) => c.field === "summary")).toMatchObject({
+        before: "Latency 300ms",
+        after: "Latency 900ms",
+      });
+    });
+
+    test("should capture item-level actions", () => {
+      ctx.upsertAssumption({ id: "a-1", statement: "Traffic is organic" });
+      ctx.assumptions.get("a-1")?.updateStatement("Traffic is a bot attack");
+
+      const revs = ctx.getRevisions("assumption", "a-1");
+      expect(revs).toHaveLength(2);
+      expect((revs[1]!.snapshot as { statement: string }).statement).toBe(
+        "Traffic is a bot attack",
+      );
+    });
+
+    test("should skip updates that change nothing", () => {
+      ctx.upsertGoal({ id: "g-1", title: "Ship", createdAt: "2024-01-01T00:00:00Z" });
+      ctx.patchGoal("g-1", { title: "Ship" });
+      expect(ctx.getRevisions("goal", "g-1")).toHaveLength(1);
+    });
+
+    test("should diff revisions", () => {
+      ctx.upsertDecision({ id: "d-1", statement: "Use MySQL" });
+      ctx.patchDecision("d-1", { rationale: "Team knows it" });
+      ctx.patchDecision("d-1", { statement: "Use Postgres" });
+
+      const diff = ctx.diffRevisions("decision", "d-1", 1, 3)!;
+      const byField = Object.fromEntries(diff.map((d) => [d.field, d]));
+      expect(byField.statement).toMatchObject({ before: "Use MySQL", after: "Use Postgres" });
+      expect(byField.rationale).toMatchObject({ before: undefined, after: "Team knows it" });
+      expect(ctx.diffRevisions("decision", "d-1", 1, 9)).toBeUndefined();
+    });
+
+    test("should answer what was believed at a point in time", async () => {
+      ctx.upsertAssumption({ id: "a-1", statement: "Backups are current" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const checkpoint = new Date();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      ctx.patchAssumption("a-1", { statement: "Backups are 3 days stale" });
+
+      const then = ctx.getRevisionAt("assumption", "a-1", checkpoint);
+      expect((then?.snapshot as { statement: string }).statement).toBe("Backups are current");
+      expect(ctx.getRevisionAt("assumption", "a-1", "2000-01-01T00:00:00Z")).toBeUndefined();
+    });
+
+    test("should apply retention and record removals", () => {
+      ctx.setRevisionPolicy({ maxRevisionsPerItem: 2 });
+      ctx.upsertGoal({ id: "g-1", title: "v1" });
+      ctx.patchGoal("g-1", { title: "v2" });
+      ctx.patchGoal("g-1", { title: "v3" });
+      ctx.removeKnowledgeObject("goal", "g-1", { by: "bob" });
+
+      const revs = ctx.getRevisions("goal", "g-1");
+      expect(revs.map((r) => r.rev)).toEqual([3, 4]);
+      expect(revs[1]).toMatchObject({ change: "removed", by: "bob", snapshot: null });
+    });
+  });
+  describe("Batch Upserts", () => {
+    test("should apply all upserts and emit one aggregated event", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+      ctx.upsertGoal({ id: "g-1", title: "Old" });
+      events.length = 0;
+
+      ctx.upsertMany([
+        { kind: "goal", item: { id: "g-1", title: "New" } },
+        { kind: "evidence", item: { id: "e-1", summary: "Pool exhausted", severity: "critical" } },
+      ]);
+
+      expect(ctx.goals.get("g-1")?.title).toBe("New");
+      expect(ctx.evidence.get("e-1")?.severity).toBe("critical");
+      expect(events.map((e) => e.type)).toEqual(["knowledgeObjects:batchUpserted"]);
+      const batch = events[0] as KnowledgeObjectsBatchUpsertedEvent;
+      expect(batch.count).toBe(2);
+      expect(batch.items.map((i) => [i.kind, i.id, i.isNew])).toEqual([
+        ["goal", "g-1", false],
+        ["evidence", "e-1", true],
+      ]);
+      expect(batch.items[0]?.changedFields).toContain("title");
+    });
+
+    test("should roll back everything when an item fails validation", () => {
+      const events: HookEvent[] = [];
+      ctx.upsertGoal({ id: "g-1", title: "Original" });
+      ctx.hooks.onAny((e) => events.push(e));
+      const before = getSnapshot(ctx);
+
+      expect(() =>
+        ctx.upsertMany([
+          { kind: "goal", item: { id: "g-1", title: "Changed" } },
+          { kind: "evidence", item: { id: "e-1", summary: "x", confidence: 1.5 } },
+        ]),
+      ).toThrow();
+
+      expect(getSnapshot(ctx)).toEqual(before);
+      expect(events).toHaveLength(0);
+
+      // listeners survive the rollback
+      ctx.upsertGoal({ id: "g-2", title: "After" });
+      expect(events).toHaveLength(1);
+    });
+
+    test("should touch updatedAt once and deliver other events after commit", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+
+      const result = ctx.batch(() => {
+        ctx.ensureLane("ops");
+        ctx.upsertGoal({ id: "g-1", title: "A" });
+        expect(events).toHaveLength(0);
+        ctx.upsertGoal({ id: "g-2", title: "B" });
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(events.map((e) => e.type)).toEqual(["lane:created", "knowledgeObjects:batchUpserted"]);
+    });
+
+    test("should join nested batches into the outer one", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+
+      ctx.batch(() => {
+        ctx.upsertGoal({ id: "g-1", title: "A" });
+        ctx.upsertMany([{ kind: "goal", item: { id: "g-2", title: "B" } }]);
+      });
+
+      expect(events).toHaveLength(1);
+      expect((events[0] as KnowledgeObjectsBatchUpsertedEvent).count).toBe(2);
+    });
+  });
+  describe("Validated Upserts", () => {
+    test("should upsert valid input and report isNew", () => {
+      const first = ctx.tryUpsertGoal({ id: "g-1", title: "Ship" });
+      const second = ctx.tryUpsertGoal({ id: "g-1", title: "Ship v2" });
+
+      expect(first).toEqual({ ok: true, kind: "goal", id: "g-1", isNew: true, coerced: [] });
+      expect(second.ok && second.isNew).toBe(false);
+      expect(ctx.goals.get("g-1")?.title).toBe("Ship v2");
+    });
+
+    test("should return structured errors instead of throwing", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+
+      const res = ctx.tryUpsertEvidence({
+        id: "e-1",
+        summary: "Latency spike",
+        severity: "huge",
+        confidence: 1.5,
+        tags: [{ key: 3 }],
+      });
+
+      expect(res.ok).toBe(false);
+      if (res.ok) return;
+      expect(res.errors.map((e) => e.path)).toEqual(["severity", "confidence", "tags/0/key"]);
+      expect(res.errors[0]?.message).toBe(
+        'severity: expected ("low" | "medium" | "high" | "critical"), got "huge"',
+      );
+      expect(res.errors[1]?.message).toBe("confidence: must be a number between 0 and 1, got 1.5");
+      expect(res.errors[2]?.value).toBe(3);
+      expect(ctx.evidence.has("e-1")).toBe(false);
+      expect(events).toHaveLength(0);
+    });
+
+    test("should report missing required fields and non-object input", () => {
+      const res = ctx.tryUpsertDecision({ statement: "Roll back" });
+      expect(res.ok === false && res.errors[0]?.path).toBe("id");
+
+      const bad = ctx.tryUpsertDecision("Roll back");
+      expect(bad.ok === false && bad.errors[0]?.message).toBe("item: expected an object");
+
+      const unknown = ctx.tryUpsertKnowledgeObject("nope", { id: "x" });
+      expect(unknown.ok === false && unknown.errors[0]?.message).toMatch(/unknown/);
+    });
+
+    test("should coerce near-miss values when asked", () => {
+      const input = { id: "e-1", summary: "Latency spike", severity: " High", confidence: "0.8" };
+
+      expect(ctx.tryUpsertEvidence(input).ok).toBe(false);
+
+      const res = ctx.tryUpsertEvidence(input, { coerce: true });
+      expect(res.ok).toBe(true);
+      if (!res.ok) return;
+      expect(res.coerced).toEqual([
+        { path: "severity", from: " High", to: "high" },
+        { path: "confidence", from: "0.8", to: 0.8 },
+      ]);
+      expect(ctx.evidence.get("e-1")?.severity).toBe("high");
+      expect(ctx.evidence.get("e-1")?.confidence).toBe(0.8);
+    });
+
+    test("should coerce label confidence and priorities", () => {
+      const res = ctx.tryUpsertQuestion(
+        { id: "q-1", question: "Which region?", priority: "P0" },
+        { coerce: true },
+      );
+      expect(res.ok).toBe(true);
+      expect(ctx.questions.get("q-1")?.priority).toBe("p0");
+    });
+  });
+  describe("Question Answering", () => {
+    beforeEach(() => {
+      ctx.ensureLane("ops", "Ops");
+      ctx.upsertQuestion({ id: "q-1", question: "Which version leaks connections?" });
+      ctx.upsertQuestion({ id: "q-2", question: "Who owns the orders service?" });
+      ctx.upsertEvidence({ id: "e-1", summary: "Bisect points at abc123" });
+    });
+
+    test("should resolve the question and link the answer", () => {
+      expect(
+        ctx.answerQuestion("q-1", {
+          by: { kind: "evidence", id: "e-1" },
+          summary: "v2.4.0 (commit abc123)",
+        }),
+      ).toBe(true);
+
+      const q = ctx.questions.get("q-1")!;
+      expect(q.status).toBe("done");
+      expect(q.isResolved).toBe(true);
+      expect(q.answer?.summary).toBe("v2.4.0 (commit abc123)");
+      expect(q.answer?.by.id).toBe("e-1");
+      expect(ctx.getNeighbors({ kind: "question", id: "q-1" })).toEqual([
+        { kind: "evidence", id: "e-1", relationType: "answers", direction: "in" },
+      ]);
+      expect(
+        ctx.answerQuestion("missing", { by: { kind: "evidence", id: "e-1" }, summary: "" }),
+      ).toBe(false);
+    });
+
+    test("should reject an answer from a missing item", () => {
+      expect(
+        ctx.answerQuestion("q-2", { by: { kind: "evidence", id: "nope" }, summary: "Unknown" }),
+      ).toBe(false);
+
+      expect(ctx.questions.get("q-2")?.answer).toBeUndefined();
+      expect(ctx.getNeighbors({ kind: "question", id: "q-2" })).toEqual([]);
+    });
+
+    test("should replace the answer link when re-answered", () => {
+      ctx.upsertDecision({ id: "d-1", statement: "Team Orders owns it" });
+      ctx.answerQuestion("q-2", { by: { kind: "evidence", id: "e-1" }, summary: "Unknown" });
+      ctx.answerQuestion("q-2", { by: { kind: "decision", id: "d-1" }, summary: "Team Orders" });
+
+      expect(ctx.getNeighbors({ kind: "question", id: "q-2" }).map((n) => n.id)).toEqual(["d-1"]);
+    });
+
+    test("should emit question:answered", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+
+      ctx.answerQuestion("q-1", { by: { kind: "evidence", id: "e-1" }, summary: "v2.4.0" });
+
+      expect(events.map((e) => e.type)).toEqual(["relation:linked", "question:answered"]);
+      expect(events[1]).toMatchObject({
+        questionId: "q-1",
+        by: { kind: "evidence", id: "e-1" },
+        summary: "v2.4.0",
+        reanswered: false,
+      });
+    });
+
+    test("should render resolved questions separately", () => {
+      ctx.answerQuestion("q-1", { by: { kind: "evidence", id: "e-1" }, summary: "v2.4.0" });
+
+      ctx.synthesizeFromLanes();
+
+      expect(ctx.workingMemory.text).toContain("Open questions:\n- Who owns the orders service?");
+      expect(ctx.workingMemory.text).toContain(
+        "Resolved questions:\n- Which version leaks connections? → v2.4.0",
+      );
+      const payload = ctx.buildLLMContextPayload();
+      expect(payload.questions).toEqual(["Who owns the orders service?"]);
+      expect(payload.resolvedQuestions).toEqual(["Which version leaks connections? → v2.4.0"]);
+    });
+
+    test("should leave resolved questions out when the policy says so", () => {
+      ctx.answerQuestion("q-1", { by: { kind: "evidence", id: "e-1" }, summary: "v2.4.0" });
+      ctx.lanes.get("ops")?.setWindowPolicy({ includeResolvedQuestions: false });
+
+      ctx.refreshLaneSelection("ops");
+
+      expect(ctx.lanes.get("ops")?.window.selected.some((r) => r.id === "q-1")).toBe(false);
+    });
+  });
+  describe("Decision Supersession", () => {
+    beforeEach(() => {
+      ctx.ensureLane("ops", "Ops");
+      ctx.upsertDecision({ id: "d-1", statement: "Restart pods nightly" });
+    });
+
+    test("should retire the replaced decision and link the pair", () => {
+      ctx.upsertDecision({ id: "d-2", statement: "Pin pool size to 50", supersedes: "d-1" });
+
+      const old = ctx.decisions.get("d-1")!;
+      expect(old.status).toBe("superseded");
+      expect(old.supersededBy).toBe("d-2");
+      expect(ctx.getNeighbors({ kind: "decision", id: "d-2" })).toEqual([
+        { kind: "decision", id: "d-1", relationType: "supersedes", direction: "out" },
+      ]);
+    });
+
+    test("should keep chain links when a re-upsert omits them", () => {
+      ctx.supersedeDecision("d-1", { id: "d-2", statement: "Pin pool size to 50" });
+
+      ctx.upsertDecision({ id: "d-2", statement: "Pin pool size to 60" });
+      ctx.upsertDecision({ id: "d-1", statement: "Restart pods nightly", status: "superseded" });
+
+      expect(ctx.decisions.get("d-2")?.supersedes).toBe("d-1");
+      expect(ctx.decisions.get("d-1")?.supersededBy).toBe("d-2");
+      expect(ctx.getDecisionChain("d-2").map((d) => d.id)).toEqual(["d-1", "d-2"]);
+
+      ctx.upsertDecision({ id: "d-2", statement: "Pin pool size to 60", supersedes: undefined });
+      expect(ctx.decisions.get("d-2")?.supersedes).toBeUndefined();
+    });
+
+    test("should walk the chain from any member", () => {
+      ctx.supersedeDecision("d-1", { id: "d-2", statement: "Pin pool size to 50" });
+      ctx.supersedeDecision("d-2", { id: "d-3", statement: "Upgrade to v2.4.1" });
+
+      expect(ctx.getDecisionChain("d-2").map((d) => d.id)).toEqual(["d-1", "d-2", "d-3"]);
+      expect(ctx.getCurrentDecision("d-1")?.id).toBe("d-3");
+      expect(ctx.supersedeDecision("missing", { id: "d-4", statement: "x" })).toBe(false);
+    });
+
+    test("should replace the chain head when superseding an already superseded decision", () => {
+      ctx.supersedeDecision("d-1", { id: "d-2", statement: "Pin pool size to 50" });
+      ctx.supersedeDecision("d-1", { id: "d-3", statement: "Upgrade to v2.4.1" });
+      ctx.upsertDecision({ id: "d-4", statement: "Move to managed pool", supersedes: "d-2" });
+
+      expect(ctx.decisions.get("d-3")?.supersedes).toBe("d-2");
+      expect(ctx.decisions.get("d-4")?.supersedes).toBe("d-3");
+      expect(ctx.getDecisionChain("d-2").map((d) => d.id)).toEqual(["d-1", "d-2", "d-3", "d-4"]);
+      expect(ctx.getDecisionChain("d-1")).toEqual(ctx.getDecisionChain("d-4"));
+      expect([...ctx.decisions.values()].filter((d) => d.status === "active")).toHaveLength(1);
+    });
+
+    test("should emit decision:superseded after the upsert", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+
+      ctx.supersedeDecision("d-1", { id: "d-2", statement: "Pin pool size to 50" });
+
+      expect(events.map((e) => e.type)).toEqual([
+        "knowledgeObject:upserted",
+        "relation:linked",
+        "decision:superseded",
+      ]);
+      expect(events[2]).toMatchObject({
+        decisionId: "d-1",
+        supersededBy: "d-2",
+        previousStatus: "active",
+      });
+    });
+
+    test("should select only the chain head and expose its history", () => {
+      ctx.supersedeDecision("d-1", { id: "d-2", statement: "Pin pool size to 50" });
+
+      ctx.synthesizeFromLanes();
+
+      expect(ctx.workingMemory.text).toContain("Pin pool size to 50");
+      expect(ctx.workingMemory.text).not.toContain("Restart pods nightly");
+      expect(ctx.buildLLMContextPayload().decisionChains).toEqual([
+        {
+          head: "d-2",
+          chain: [
+            { id: "d-1", statement: "Restart pods nightly", status: "superseded" },
+            { id: "d-2", statement: "Pin pool size to 50", status: "active" },
+          ],
+        },
+      ]);
+    });
+  });
+  describe("Assumption Evidence", () => {
+    beforeEach(() => {
+      ctx.upsertAssumption({ id: "a-1", statement: "The leak is in the pool", confidence: 0.5 });
+      ctx.upsertEvidence({ id: "e-1", summary: "Pool exhausted", severity: "critical" });
+      ctx.upsertEvidence({
+        id: "e-2",
+        summary: "Heap dump shows pooled sockets",
+        severity: "high",
+      });
+      ctx.upsertEvidence({
+        id: "e-3",
+        summary: "Leak persists with pool disabled",
+        severity: "low",
+      });
+    });
+
+    afterEach(() => {
+      unregisterAssumptionUpdateRule("majority");
+    });
+
+    test("should raise confidence and validate past the threshold", () => {
+      ctx.attachEvidence("a-1", "e-1", "confirms");
+
+      const a = ctx.assumptions.get("a-1")!;
+      expect(a.confidence).toBeCloseTo(0.881, 3);
+      expect(a.priorConfidence).toBe(0.5);
+      expect(a.status).toBe("active");
+
+      ctx.attachEvidence("a-1", "e-2", "confirms");
+
+      expect(a.confidence as number).toBeGreaterThan(0.9);
+      expect(a.status).toBe("validated");
+
+      ctx.ensureLane("ops", "Ops");
+      ctx.refreshLaneSelection("ops");
+      expect(ctx.lanes.get("ops")?.window.selected.some((r) => r.id === "a-1")).toBe(true);
+    });
+
+    test("should invalidate on refuting evidence and recover when detached", () => {
+      ctx.setAssumptionPolicy({ invalidateAt: 0.3 });
+      ctx.attachEvidence("a-1", "e-1", "refutes");
+
+      const a = ctx.assumptions.get("a-1")!;
+      expect(a.status).toBe("invalidated");
+
+      ctx.detachEvidence("a-1", "e-1");
+
+      expect(a.confidence).toBe(0.5);
+      expect(a.status).toBe("active");
+    });
+
+    test("should ignore evidence that is no longer active", () => {
+      ctx.attachEvidence("a-1", "e-1", "confirms");
+      ctx.attachEvidence("a-1", "e-3", "refutes");
+      const withBoth = ctx.assumptions.get("a-1")!.confidence as number;
+
+      ctx.setEvidenceStatus("e-3", "retracted", "wrong build");
+
+      expect(ctx.assumptions.get("a-1")!.confidence).toBeGreaterThan(withBoth);
+      expect(ctx.assumptions.get("a-1")!.confidence).toBeCloseTo(0.881, 3);
+    });
+
+    test("should emit confidence and status events", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+
+      ctx.attachEvidence("a-1", "e-1", "confirms");
+      ctx.attachEvidence("a-1", "e-2", "confirms");
+
+      expect(events.map((e) => e.type)).toEqual([
+        "relation:linked",
+        "assumption:confidenceUpdated",
+        "relation:linked",
+        "assumption:confidenceUpdated",
+        "assumption:statusChanged",
+      ]);
+      expect(events[1]).toMatchObject({
+        assumptionId: "a-1",
+        previousConfidence: 0.5,
+        rule: "logOdds",
+        confirming: ["e-1"],
+        refuting: [],
+      });
+      expect(events[4]).toMatchObject({ previousStatus: "active", status: "validated" });
+    });
+
+    test("should use a registered update rule", () => {
+      registerAssumptionUpdateRule("majority", (prior, evidence) => {
+        const net = evidence.reduce((n, e) => n + (e.direction === "confirms" ? 1 : -1), 0);
+        return net > 0 ? 1 : net < 0 ? 0 : prior;
+      });
+      ctx.setAssumptionPolicy({ rule: "majority" });
+
+      ctx.attachEvidence("a-1", "e-3", "confirms");
+
+      expect(ctx.assumptions.get("a-1")?.confidence).toBe(1);
+      expect(ctx.assumptions.get("a-1")?.status).toBe("validated");
+      expect(() => ctx.setAssumptionPolicy({ rule: "nope" })).toThrow(
+        'Unknown assumption update rule "nope"',
+      );
+    });
+
+    test("should reject snapshots naming an unknown update rule", () => {
+      expect(() =>
+        ActiveMetaContext.create({ ...getSnapshot(ctx), assumptionPolicy: { rule: "nope" } }),
+      ).toThrow('unknown assumption update rule "nope"');
+    });
+
+    test("should never lower the score on confirming evidence", () => {
+      ctx.upsertEvidence({
+        id: "e-weak",
+        summary: "Faint hint",
+        severity: "low",
+        confidence: "low",
+      });
+      ctx.ensureLane("ops", "Ops");
+      ctx.lanes.get("ops")!.setWindowPolicy({ wRecency: 0 });
+      const policy = ctx.lanes.get("ops")!.window.policy;
+
+      for (const label of ["low", "medium", "high"] as const) {
+        const id = `a-${label}`;
+        ctx.upsertAssumption({ id, statement: `Leak (${label})`, confidence: label });
+        const before = ctx.scoreRef(policy, "assumption", id, false);
+
+        ctx.attachEvidence(id, "e-weak", "confirms");
+
+        expect(ctx.scoreRef(policy, "assumption", id, false)).toBeGreaterThanOrEqual(before);
+      }
+    });
+  });
+  describe("Confidence Decay", () => {
+    const hoursAgo = (h: number) => new Date(Date.now() - h * 3_600_000).toISOString();
+
+    beforeEach(() => {
+      ctx.ensureLane("markets", "Markets");
+      ctx.lanes.get("markets")?.setWindowPolicy({ includeKinds: ["evidence"], maxItems: 1 });
+      ctx.upsertEvidence({
+        id: "news-old",
+        summary: "Fed signals rate cut",
+        severity: "critical",
+        confidence: "high",
+        createdAt: hoursAgo(24),
+        updatedAt: hoursAgo(24),
+      });
+      ctx.upsertEvidence({
+        id: "signal-new",
+        summary: "Order book imbalance on BTC",
+        severity: "high",
+        confidence: "medium",
+      });
+    });
+
+    test("should leave scoring unchanged without a policy", () => {
+      ctx.refreshLaneSelection("markets");
+
+      expect(ctx.lanes.get("markets")?.window.selected.map((r) => r.id)).toEqual(["news-old"]);
+      expect(ctx.getDecayedValues("evidence", "news-old")).toBeUndefined();
+    });
+
+    test("should halve confidence per half-life and step severity down", () => {
+      ctx.setDecayPolicy("evidence", { confidenceHalfLifeHours: 12, severityStepHours: 10 });
+
+      const decayed = ctx.getDecayedValues("evidence", "news-old")!;
+      expect(decayed.ageHours).toBeCloseTo(24, 1);
+      expect(decayed.confidence?.original).toBe("high");
+      expect(decayed.confidence?.effective).toBeCloseTo(0.25, 2);
+      expect(decayed.severity).toEqual({ original: "critical", effective: "medium" });
+      // the stored item is untouched
+      expect(ctx.evidence.get("news-old")?.severity).toBe("critical");
+    });
+
+    test("should respect the configured floors", () => {
+      ctx.setDecayPolicy("evidence", {
+        confidenceHalfLifeHours: 1,
+        minConfidence: 0.4,
+        severityStepHours: 1,
+        minSeverity: "high",
+      });
+
+      const decayed = ctx.getDecayedValues("evidence", "news-old")!;
+      expect(decayed.confidence?.effective).toBe(0.4);
+      expect(decayed.severity?.effective).toBe("high");
+    });
+
+    test("should let fresh signals outrank stale news and report the decay", () => {
+      ctx.setDecayPolicy("evidence", { confidenceHalfLifeHours: 6, severityStepHours: 8 });
+
+      ctx.synthesizeFromLanes();
+
+      expect(ctx.activeWindow.selected.map((r) => r.id)).toEqual(["signal-new"]);
+      expect(ctx.buildLLMContextPayload().decay).toEqual([]);
+
+      ctx.setDecayPolicy("evidence", undefined);
+      ctx.synthesizeFromLanes();
+      expect(ctx.activeWindow.selected.map((r) => r.id)).toEqual(["news-old"]);
+
+      ctx.setDecayPolicy("evidence", { confidenceHalfLifeHours: 48 });
+      ctx.synthesizeFromLanes();
+      expect(ctx.buildLLMContextPayload().decay).toEqual([
+        expect.objectContaining({
+          kind: "evidence",
+          id: "news-old",
+          confidence: { original: "high", effective: expect.closeTo(0.707, 2) },
+        }),
+      ]);
+    });
+
+    test("should never score decayed confidence above undecayed confidence", () => {
+      const policy = ctx.lanes.get("markets")!.window.policy;
+      const confidences = ["low", "medium", "high", 0, 0.3, 1] as const;
+      confidences.forEach((confidence, i) => {
+        ctx.upsertEvidence({
+          id: `e-aged-${i}`,
+          summary: "Aged finding",
+          confidence,
+          createdAt: hoursAgo(3),
+          updatedAt: hoursAgo(3),
+        });
+      });
+
+      const undecayed = confidences.map((_, i) => ctx.scoreRef(policy, "evidence", `e-aged-${i}`));
+      ctx.setDecayPolicy("evidence", { confidenceHalfLifeHours: 1 });
+
+      expect(ctx.getDecayedValues("evidence", "e-aged-2")?.confidence?.effective).toBe(0.125);
+      confidences.forEach((_, i) => {
+        expect(ctx.scoreRef(policy, "evidence", `e-aged-${i}`)).toBeLessThanOrEqual(undecayed[i]!);
+      });
+    });
+  });
+  describe("Goal Hierarchy", () => {
+    beforeEach(() => {
+      ctx.ensureLane("ops", "Ops");
+      ctx.upsertGoal({ id: "g-root", title: "Stabilize checkout", priority: "p3" });
+      ctx.upsertGoal({
+        id: "g-leak",
+        title: "Fix connection leak",
+        parentId: "g-root",
+        progress: 50,
+      });
+      ctx.upsertGoal({
+        id: "g-alerts",
+        title: "Add pool alerts",
+        parentId: "g-root",
+        priority: "p3",
+        criteria: [{ text: "Dashboard" }, { text: "Pager rule" }],
+      });
+    });
+
+    test("should walk parents and children", () => {
+      expect(ctx.getSubGoals("g-root").map((g) => g.id)).toEqual(["g-leak", "g-alerts"]);
+      expect(ctx.getGoalAncestors("g-leak").map((g) => g.id)).toEqual(["g-root"]);
+      expect(ctx.getGoalAncestors("g-root")).toEqual([]);
+    });
+
+    test("should roll progress up from sub-goals and criteria", () => {
+      ctx.goals.get("g-alerts")!.setCriterionDone("Dashboard");
+
+      const rollup = ctx.getGoalRollup("g-root")!;
+      expect(rollup.progress).toBe(50);
+      expect(rollup.status).toBe("active");
+      expect(rollup.children.map((c) => [c.goalId, c.progress])).toEqual([
+        ["g-leak", 50],
+        ["g-alerts", 50],
+      ]);
+    });
+
+    test("should derive the parent status from its children", () => {
+      ctx.goals.get("g-leak")!.setStatus("done");
+      ctx.goals.get("g-alerts")!.setStatus("paused");
+      expect(ctx.getGoalRollup("g-root")?.status).toBe("paused");
+
+      ctx.goals.get("g-alerts")!.setStatus("archived");
+      expect(ctx.getGoalRollup("g-root")).toMatchObject({ status: "done", progress: 50 });
+    });
+
+    test("should survive parent cycles", () => {
+      ctx.upsertGoal({ id: "g-a", title: "A", parentId: "g-b" });
+      ctx.upsertGoal({ id: "g-b", title: "B", parentId: "g-a" });
+
+      expect(ctx.getGoalAncestors("g-a").map((g) => g.id)).toEqual(["g-b"]);
+      expect(ctx.getGoalRollup("g-a")?.children.map((c) => c.goalId)).toEqual(["g-b"]);
+    });
+
+    test("should render sub-goals under their parent's title", () => {
+      ctx.lanes.get("ops")?.setWindowPolicy({ includeKinds: ["goal"], maxItems: 1 });
+
+      ctx.synthesizeFromLanes();
+
+      expect(ctx.activeWindow.selected.map((r) => r.id)).toEqual(["g-leak"]);
+      expect(ctx.workingMemory.text).toContain("- Stabilize checkout › Fix connection leak [50%]");
+    });
+  });
+  describe("Constraint Checks", () => {
+    beforeEach(() => {
+      ctx.upsertConstraint({
+        id: "con-risk",
+        statement: "Max position size is 10k USD",
+        strength: "hard",
+        predicates: [
+          { check: "maxValue", params: { field: "attributes.positionSize", max: 10_000 } },
+        ],
+      });
+      ctx.upsertConstraint({
+        id: "con-review",
+        statement: "Trades should be reviewed",
+        predicates: [{ check: "requireTag", params: { key: "reviewed" } }],
+      });
+    });
+
+    afterEach(() => {
+      unregisterConstraintCheck("noWeekend");
+    });
+
+    test("should pass a conforming decision", () => {
+      const result = ctx.checkDecision({
+        id: "d-1",
+        statement: "Buy 0.1 BTC",
+        attributes: { positionSize: 6_000 },
+        tags: [{ key: "reviewed" }],
+      });
+
+      expect(result).toEqual({ ok: true, violations: [] });
+    });
+
+    test("should block on hard and warn on soft violations", () => {
+      const result = ctx.checkDecision({
+        id: "d-2",
+        statement: "Buy 1 BTC",
+        attributes: { positionSize: 60_000 },
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.violations).toEqual([
+        {
+          constraintId: "con-risk",
+          statement: "Max position size is 10k USD",
+          strength: "hard",
+          messages: ["attributes.positionSize 60000 exceeds max 10000"],
+        },
+        {
+          constraintId: "con-review",
+          statement: "Trades should be reviewed",
+          strength: "soft",
+          messages: ["missing tag reviewed"],
+        },
+      ]);
+      expect(ctx.decisions.has("d-2")).toBe(false);
+    });
+
+    test("should only fail soft constraints with ok", () => {
+      expect(ctx.checkDecision({ id: "d-3", statement: "Hold" }).ok).toBe(true);
+    });
+
+    test("should skip inactive constraints", () => {
+      ctx.constraints.get("con-risk")!.setStatus("paused");
+
+      expect(
+        ctx.checkDecision({ id: "d-2", statement: "Buy", attributes: { positionSize: 60_000 } }).ok,
+      ).toBe(true);
+    });
+
+    test("should emit constraint:violated per constraint", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.on("constraint:violated", (e) => events.push(e));
+
+      ctx.checkDecision({ id: "d-2", statement: "Buy", attributes: { positionSize: 60_000 } });
+
+      expect(events).toEqual([
+        expect.objectContaining({ constraintId: "con-risk", strength: "hard", decisionId: "d-2" }),
+        expect.objectContaining({
+          constraintId: "con-review",
+          strength: "soft",
+          decisionId: "d-2",
+        }),
+      ]);
+    });
+
+    test("should use registered checks and reject unknown ones", () => {
+      registerConstraintCheck("noWeekend", (d) =>
+        d.attributes?.day === "sat" ? "no trading on weekends" : undefined,
+      );
+      ctx.upsertConstraint({
+        id: "con-days",
+        statement: "Weekdays only",
+        strength: "hard",
+        predicates: [{ check: "noWeekend" }],
+      });
+
+      expect(
+        ctx.checkDecision({ id: "d-4", statement: "Buy", attributes: { day: "sat" } }).violations,
+      ).toEqual([
+        expect.objectContaining({ constraintId: "con-review" }),
+        expect.objectContaining({ constraintId: "con-days", messages: ["no trading on weekends"] }),
+      ]);
+      expect(() =>
+        ctx.upsertConstraint({ id: "con-x", statement: "x", predicates: [{ check: "nope" }] }),
+      ).toThrow();
+    });
+  });
+  describe("Evidence Dedup", () => {
+    beforeEach(async () => {
+      ctx.setDedupPolicy({ enabled: true, threshold: 0.7 });
+      await ctx.ingestEvidence({ id: "n-1", summary: "Fed holds rates steady at 5.25%" });
+    });
+
+    test("should merge a near-duplicate into the existing item", async () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.on("evidence:ingested", (e) => events.push(e));
+
+      await ctx.ingestEvidence({ id: "n-2", summary: "Fed holds rates steady at 5.25 %!" });
+
+      expect(ctx.evidence.has("n-2")).toBe(false);
+      const merged = ctx.evidence.get("n-1")!;
+      expect(merged.occurrences).toBe(2);
+      expect(merged.lastSeenAt).toBeDefined();
+      expect(events[0]).toMatchObject({
+        evidenceId: "n-1",
+        dedup: { action: "merged", duplicateOf: "n-1" },
+      });
+      expect((events[0] as { dedup: { similarity: number } }).dedup.similarity).toBeGreaterThan(
+        0.7,
+      );
+    });
+
+    test("should record one revision per merge", async () => {
+      ctx.setRevisionPolicy({ enabled: true });
+
+      await ctx.ingestEvidence({ id: "n-2", summary: "Fed holds rates steady at 5.25 %!" });
+      await ctx.ingestEvidence({ id: "n-3", summary: "Fed holds rates steady at 5.25%." });
+
+      const revs = ctx.getRevisions("evidence", "n-1");
+      expect(revs.map((r) => (r.snapshot as { occurrences: number }).occurrences)).toEqual([2, 3]);
+    });
+
+    test("should link a near-duplicate in link mode", async () => {
+      ctx.setDedupPolicy({ mode: "link" });
+
+      await ctx.ingestEvidence({ id: "n-2", summary: "Fed holds rates steady at 5.25% (Reuters)" });
+
+      const dup = ctx.evidence.get("n-2")!;
+      expect(dup.status).toBe("superseded");
+      expect(dup.statusReason).toBe("duplicate of n-1");
+      expect(ctx.getNeighbors({ kind: "evidence", id: "n-2" })).toEqual([
+        { kind: "evidence", id: "n-1", relationType: "duplicateOf", direction: "out" },
+      ]);
+    });
+
+    test("should store items below the threshold", async () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.on("evidence:ingested", (e) => events.push(e));
+
+      await ctx.ingestEvidence({ id: "n-2", summary: "ECB cuts rates by 25bp" });
+
+      expect(ctx.evidence.get("n-2")?.status).toBe("active");
+      expect(events[0]).not.toHaveProperty("dedup");
+    });
+
+    test("should treat re-ingesting the same ID as an update", async () => {
+      await ctx.ingestEvidence({
+        id: "n-1",
+        summary: "Fed holds rates steady at 5.25%",
+        severity: "high",
+      });
+
+      expect(ctx.evidence.get("n-1")?.severity).toBe("high");
+      expect(ctx.evidence.get("n-1")?.occurrences).toBe(1);
+    });
+
+    test("should not dedup when disabled", async () => {
+      ctx.setDedupPolicy({ enabled: false });
+
+      await ctx.ingestEvidence({ id: "n-2", summary: "Fed holds rates steady at 5.25%" });
+
+      expect(ctx.evidence.size).toBe(2);
+    });
+  });
+  describe("Contradiction Detection", () => {
+    beforeEach(() => {
+      ctx.ensureLane("ops", "Ops");
+      ctx.upsertEvidence({
+        id: "e-ok",
+        summary: "Checkout latency recovered after rollback",
+        tags: [{ key: "subject", value: "latency" }],
+      });
+      ctx.upsertEvidence({
+        id: "e-bad",
+        summary: "Checkout latency still degraded in eu-west",
+        tags: [{ key: "subject", value: "latency" }],
+      });
+      ctx.upsertEvidence({
+        id: "e-other",
+        summary: "Error rate still elevated",
+        tags: [{ key: "subject", value: "errors" }],
+      });
+    });
+
+    afterEach(() => {
+      unregisterContradictionDetector("regionMismatch");
+    });
+
+    test("should detect opposite claims about the same subject", () => {
+      expect(ctx.detectContradictions()).toEqual(["evidence:e-bad<>evidence:e-ok"]);
+
+      const c = ctx.conflicts.get("evidence:e-bad<>evidence:e-ok")!;
+      expect(c.detector).toBe("polarity");
+      expect(c.reason).toBe("opposite claims about latency");
+      expect(c.status).toBe("open");
+      // already recorded
+      expect(ctx.detectContradictions()).toEqual([]);
+    });
+
+    test("should surface conflicts in working memory and the payload", () => {
+      ctx.detectContradictions();
+
+      ctx.synthesizeFromLanes();
+
+      const line =
+        "Checkout latency recovered after rollback ⟷ Checkout latency still degraded in eu-west (opposite claims about latency)";
+      expect(ctx.workingMemory.text).toContain(`Conflicts:\n- ${line}`);
+      expect(ctx.buildLLMContextPayload().conflicts).toEqual([line]);
+    });
+
+    test("should detect on write when autoDetect is on", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.on("conflict:detected", (e) => events.push(e));
+      ctx.setContradictionPolicy({ autoDetect: true });
+
+      ctx.upsertAssumption({
+        id: "a-1",
+        statement: "Error rate is back to normal",
+        tags: [{ key: "subject", value: "errors" }],
+      });
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          conflictId: "assumption:a-1<>evidence:e-other",
+          a: { kind: "evidence", id: "e-other" },
+          b: { kind: "assumption", id: "a-1" },
+        }),
+      ]);
+    });
+
+    test("should resolve conflicts manually and when they no longer hold", () => {
+      ctx.detectContradictions();
+      const events: HookEvent[] = [];
+      ctx.hooks.on("conflict:resolved", (e) => events.push(e));
+
+      ctx.setEvidenceStatus("e-bad", "retracted");
+      ctx.detectContradictions();
+
+      expect(ctx.conflicts.get("evidence:e-bad<>evidence:e-ok")?.status).toBe("resolved");
+      expect(events).toEqual([
+        expect.objectContaining({ conflictId: "evidence:e-bad<>evidence:e-ok", automatic: true }),
+      ]);
+
+      ctx.upsertAssumption({
+        id: "a-1",
+        statement: "Error rate is back to normal",
+        tags: [{ key: "subject", value: "errors" }],
+      });
+      ctx.detectContradictions();
+      expect(ctx.resolveConflict("assumption:a-1<>evidence:e-other", "stale dashboard")).toBe(true);
+      expect(ctx.conflicts.get("assumption:a-1<>evidence:e-other")?.resolution).toBe(
+        "stale dashboard",
+      );
+      expect(ctx.resolveConflict("assumption:a-1<>evidence:e-other")).toBe(false);
+    });
+
+    test("should re-open automatically resolved conflicts that hold again", () => {
+      const events: HookEvent[] = [];
+      ctx.hooks.on("conflict:detected", (e) => events.push(e));
+      const id = "evidence:e-bad<>evidence:e-ok";
+      ctx.detectContradictions();
+
+      ctx.setEvidenceStatus("e-bad", "retracted");
+      ctx.detectContradictions();
+      expect(ctx.conflicts.get(id)?.status).toBe("resolved");
+
+      ctx.setEvidenceStatus("e-bad", "active");
+      expect(ctx.detectContradictions()).toEqual([id]);
+
+      expect(ctx.conflicts.get(id)?.status).toBe("open");
+      expect(ctx.conflicts.get(id)?.resolvedAutomatically).toBe(false);
+      expect(events.map((e) => e.type === "conflict:detected" && e.conflictId)).toEqual([id, id]);
+    });
+
+    test("should keep manual resolutions resolved", () => {
+      ctx.detectContradictions();
+      ctx.resolveConflict("evidence:e-bad<>evidence:e-ok", "different regions");
+
+      expect(ctx.detectContradictions()).toEqual([]);
+      expect(ctx.conflicts.get("evidence:e-bad<>evidence:e-ok")?.status).toBe("resolved");
+    });
+
+    test("should resolve conflicts of removed items", () => {
+      ctx.detectContradictions();
+
+      ctx.removeKnowledgeObject("evidence", "e-ok");
+
+      expect(ctx.getOpenConflicts()).toEqual([]);
+    });
+
+    test("should run registered detectors", () => {
+      registerContradictionDetector("regionMismatch", (a, b) =>
+        a.text.includes("eu-west") !== b.text.includes("eu-west") &&
+        a.text.startsWith("Checkout") &&
+        b.text.startsWith("Checkout")
+          ? "different regions"
+          : undefined,
+      );
+      ctx.setContradictionPolicy({ detectors: ["regionMismatch"] });
+
+      ctx.detectContradictions();
+
+      expect(ctx.conflicts.get("evidence:e-bad<>evidence:e-ok")?.detector).toBe("regionMismatch");
+      expect(() => ctx.setContradictionPolicy({ detectors: ["nope"] })).toThrow(
+        'Unknown contradiction detector "nope"',
+      );
+    });
+
+    test("should reject snapshots naming an unknown detector", () => {
+      expect(() =>
+        ActiveMetaContext.create({
+          ...getSnapshot(ctx),
+          contradictionPolicy: { detectors: ["nope"] },
+        }),
+      ).toThrow('unknown contradiction detector "nope"');
+    });
+  });
+  describe("Source Trust", () => {
+    beforeEach(() => {
+      ctx.ensureLane("markets", "Markets");
+      ctx.lanes.get("markets")?.setWindowPolicy({ includeKinds: ["evidence"], maxItems: 1 });
+      ctx.upsertEvidence({
+        id: "news",
+        summary: "Analysts expect BTC rally",
+        severity: "high",
+        provenance: { source: "web", ref: "cryptonews" },
+      });
+      ctx.upsertEvidence({
+        id: "ticker",
+        summary: "BTC spot 64,210",
+        severity: "medium",
+        provenance: { source: "tool", ref: "binance" },
+      });
+    });
+
+    test("should not change scores by default", () => {
+      const policy = ctx.lanes.get("markets")!.window.policy;
+
+      expect(ctx.getTrustMultiplier(policy, "evidence", "news")).toBe(1);
+      ctx.refreshLaneSelection("markets");
+      expect(ctx.lanes.get("markets")?.window.selected.map((r) => r.id)).toEqual(["news"]);
+    });
+
+    test("should scale scores by source trust", () => {
+      const policy = ctx.lanes.get("markets")!.window.policy;
+      const untrusted = ctx.scoreRef(policy, "evidence", "news");
+
+      ctx.lanes.get("markets")?.setWindowPolicy({ sourceTrust: { web: 0.5, tool: 1.2 } });
+
+      expect(ctx.scoreRef(policy, "evidence", "news")).toBeCloseTo(untrusted * 0.5);
+      ctx.refreshLaneSelection("markets");
+      expect(ctx.lanes.get("markets")?.window.selected.map((r) => r.id)).toEqual(["ticker"]);
+    });
+
+    test("should let per-ref trust override the source", () => {
+      ctx.lanes.get("markets")?.setWindowPolicy({
+        sourceTrust: { web: 0.5 },
+        refTrust: { cryptonews: 2 },
+      });
+      const policy = ctx.lanes.get("markets")!.window.policy;
+
+      expect(ctx.getTrustMultiplier(policy, "evidence", "news")).toBe(2);
+      expect(ctx.getTrustMultiplier(policy, "evidence", "ticker")).toBe(1);
+    });
+
+    test("should rank inferred assumptions below user facts", () => {
+      ctx.lanes.get("markets")?.setWindowPolicy({
+        includeKinds: ["assumption"],
+        sourceTrust: { inference: 0.6 },
+      });
+      ctx.upsertAssumption({ id: "a-llm", statement: "Rally continues", confidence: "high" });
+      ctx.upsertAssumption({
+        id: "a-user",
+        statement: "Fees stay flat",
+        confidence: "medium",
+        provenance: { source: "user" },
+      });
+
+      ctx.refreshLaneSelection("markets");
+
+      expect(ctx.lanes.get("markets")?.window.selected.map((r) => r.id)).toEqual(["a-user"]);
+    });
+
+    test("should leave pinned items at the pinned boost", () => {
+      ctx.lanes.get("markets")?.setWindowPolicy({ sourceTrust: { web: 0.1 } });
+      const policy = ctx.lanes.get("markets")!.window.policy;
+
+      expect(ctx.scoreRef(policy, "evidence", "news", true)).toBe(policy.wPinnedBoost);
+    });
+  });
+  describe("Redaction", () => {
+    beforeEach(() => {
+      ctx.ensureLane("care", "Care");
+      ctx.upsertEvidence({
+        id: "e-id",
+        summary: "Patient SSN 123-45-6789 verified",
+        severity: "high",
+      });
+      ctx.upsertEvidence({
+        id: "e-dx",
+        summary: "HIV positive per lab 2026-03-02",
+        severity: "critical",
+        sensitivity: ["phi"],
+      });
+      ctx.upsertEvidence({ id: "e-bp", summary: "BP 150/95", severity: "medium" });
+      ctx.addRedactionRule({ id: "ssn", pattern: "\\b\\d{3}-\\d{2}-\\d{4}\\b" });
+      ctx.addRedactionRule({ id: "phi", labels: ["phi"], replacement: "[PHI]" });
+    });
+
+    test("should mask working memory and report what was masked", () => {
+      ctx.synthesizeFromLanes();
+
+      expect(ctx.workingMemory.text).toContain("- [PHI]");
+      expect(ctx.workingMemory.text).toContain("- Patient SSN [REDACTED:ssn] verified");
+      expect(ctx.workingMemory.text).toContain("- BP 150/95");
+      expect(ctx.workingMemory.text).not.toContain("123-45-6789");
+      expect(ctx.workingMemory.redactions).toEqual([
+        { kind: "evidence", id: "e-dx", ruleId: "phi", count: 1 },
+        { kind: "evidence", id: "e-id", ruleId: "ssn", count: 1 },
+      ]);
+    });
+
+    test("should mask the payload", () => {
+      ctx.synthesizeFromLanes();
+
+      const payload = ctx.buildLLMContextPayload();
+
+      expect(payload.evidence).toEqual([
+        "[PHI]",
+        "Patient SSN [REDACTED:ssn] verified",
+        "BP 150/95",
+      ]);
+      expect(payload.redactions).toHaveLength(2);
+      expect(payload.workingMemory.redactions).toHaveLength(2);
+    });
+
+    test("should keep raw values in the store and archive", () => {
+      ctx.synthesizeFromLanes();
+
+      expect(ctx.evidence.get("e-id")?.summary).toBe("Patient SSN 123-45-6789 verified");
+      const entry = ctx.archive[ctx.archive.length - 1]!;
+      expect(entry.workingMemoryText).not.toContain("123-45-6789");
+      expect(JSON.stringify(entry.snapshot)).toContain("123-45-6789");
+    });
+
+    test("should scope pattern rules to labels when both are given", () => {
+      ctx.addRedactionRule({ id: "bp", pattern: "\\d+/\\d+", labels: ["vitals"] });
+      ctx.synthesizeFromLanes();
+      expect(ctx.workingMemory.text).toContain("BP 150/95");
+
+      ctx.patchEvidence("e-bp", { sensitivity: ["vitals"] });
+      ctx.synthesizeFromLanes();
+      expect(ctx.workingMemory.text).toContain("BP [REDACTED:bp]");
+    });
+
+    test("should replace and remove rules", () => {
+      ctx.addRedactionRule({ id: "ssn", pattern: "\\d{3}-\\d{2}-\\d{4}", replacement: "***" });
+      expect(ctx.redactionRules.map((r) => r.id)).toEqual(["ssn", "phi"]);
+
+      expect(ctx.removeRedactionRule("phi")).toBe(true);
+      ctx.synthesizeFromLanes();
+
+      expect(ctx.workingMemory.text).toContain("Patient SSN *** verified");
+      expect(ctx.workingMemory.text).toContain("HIV positive");
+      expect(() => ctx.addRedactionRule({ id: "empty" })).toThrow(
+        'Redaction rule "empty" needs a pattern or labels',
+      );
+      expect(ctx.addRedactionRule({ id: "bad", pattern: "(" })).toBe(false);
+      expect(ctx.addRedactionRule({ id: "bad", pattern: "a", flags: "zz" })).toBe(false);
+      expect(ctx.redactionRules.map((r) => r.id)).toEqual(["ssn"]);
+      expect(() => ctx.synthesizeFromLanes()).not.toThrow();
+    });
+
+    test("should reject snapshots with invalid flags", () => {
+      const snapshot = getSnapshot(ctx);
+      expect(() =>
+        ActiveMetaContext.create({
+          ...snapshot,
+          redactionRules: [{ id: "bad", pattern: "a", flags: "zz" }],
+        }),
+      ).toThrow();
+    });
+  });
+  describe("Tagging Rules", () => {
+    beforeEach(() => {
+      ctx.ensureLane("security", "Security");
+      ctx.lanes.get("security")?.setIncludeTagsAny([{ key: "lane", value: "security" }]);
+      ctx.addTaggingRule({
+        id: "sec-keywords",
+        keywords: ["CVE", "exploit"],
+        tags: [{ key: "lane", value: "security" }],
+      });
+      ctx.addTaggingRule({
+        id: "critical-tool",
+        kinds: ["evidence"],
+        minSeverity: "high",
+        sources: ["tool"],
+        tags: [{ key: "lane", value: "security" }, { key: "page" }],
+      });
+    });
+
+    test("should tag items on upsert", () => {
+      ctx.upsertEvidence({ id: "e-1", summary: "Exploit published for CVE-2026-1234" });
+      ctx.upsertEvidence({ id: "e-2", summary: "Disk at 91%", severity: "low" });
+
+      expect(getSnapshot(ctx.evidence.get("e-1")!.tags)).toEqual([
+        { key: "lane", value: "security", rule: "sec-keywords" },
+      ]);
+      expect(ctx.evidence.get("e-2")?.tags).toHaveLength(0);
+
+      ctx.refreshLaneSelection("security");
+      expect(ctx.lanes.get("security")?.window.selected.map((r) => r.id)).toEqual(["e-1"]);
+    });
+
+    test("should combine conditions and skip tags the caller already set", () => {
+      ctx.upsertEvidence({
+        id: "e-1",
+        summary: "WAF blocked exploit attempt",
+        severity: "critical",
+        provenance: { source: "tool" },
+        tags: [{ key: "lane", value: "security" }],
+      });
+
+      expect(getSnapshot(ctx.evidence.get("e-1")!.tags)).toEqual([
+        { key: "lane", value: "security" },
+        { key: "page", rule: "critical-tool" },
+      ]);
+    });
+
+    test("should recompute rule tags on patch", () => {
+      ctx.upsertEvidence({ id: "e-1", summary: "Exploit attempt" });
+
+      ctx.patchEvidence("e-1", { summary: "Port scan from 10.0.0.4" });
+
+      expect(ctx.evidence.get("e-1")?.tags).toHaveLength(0);
+    });
+
+    test("should not touch or emit when re-tagging changes nothing", () => {
+      ctx.upsertAssumption({ id: "a-1", statement: "Attackers reuse leaked tokens" });
+      const events: HookEvent[] = [];
+      ctx.hooks.onAny((e) => events.push(e));
+      let writes = 0;
+      const dispose = onSnapshot(ctx, () => writes++);
+
+      expect(ctx.retagAll()).toEqual([]);
+
+      dispose();
+      expect(events).toEqual([]);
+      expect(writes).toBe(0);
+    });
+
+    test("should re-tag existing items when rules change", () => {
+      ctx.upsertAssumption({ id: "a-1", statement: "Attackers reuse leaked tokens" });
+      const events: HookEvent[] = [];
+      ctx.hooks.on("tags:reevaluated", (e) => events.push(e));
+
+      ctx.addTaggingRule({
+        id: "tokens",
+        keywords: ["tokens"],
+        tags: [{ key: "lane", value: "auth" }],
+      });
+      expect(ctx.assumptions.get("a-1")?.tags.map((t) => t.value)).toEqual(["auth"]);
+
+      expect(ctx.removeTaggingRule("tokens")).toBe(true);
+      expect(ctx.assumptions.get("a-1")?.tags).toHaveLength(0);
+      expect(events.map((e) => e.type === "tags:reevaluated" && e.changes)).toEqual([
+        [
+          {
+            kind: "assumption",
+            id: "a-1",
+            added: [{ key: "lane", value: "auth", rule: "tokens" }],
+            removed: [],
+          },
+        ],
+        [
+          {
+            kind: "assumption",
+            id: "a-1",
+            added: [],
+            removed: [{ key: "lane", value: "auth", rule: "tokens" }],
+          },
+        ],
+      ]);
+    });
+
+    test("should dry-run rules without changing anything", () => {
+      ctx.upsertEvidence({ id: "e-1", summary: "Disk at 91%" });
+
+      expect(
+        ctx.dryRunTaggingRules("evidence", {
+          id: "e-new",
+          summary: "New exploit kit",
+          severity: "critical",
+          provenance: { source: "tool" },
+        }),
+      ).toEqual([
+        { ruleId: "sec-keywords", tags: [{ key: "lane", value: "security" }] },
+        { ruleId: "critical-tool", tags: [{ key: "lane", value: "security" }, { key: "page" }] },
+      ]);
+      expect(ctx.dryRunTaggingRules("evidence", "e-1")).toEqual([]);
+      expect(ctx.evidence.has("e-new")).toBe(false);
+    });
+  });
+  describe("Lane Scorers", () => {
+    beforeEach(() => {
+      ctx.ensureLane("immediate", "Immediate");
+      ctx.lanes.get("immediate")?.setWindowPolicy({ includeKinds: ["evidence"], maxItems: 1 });
+      ctx.upsertEvidence({ id: "e-hr", summary: "HR 130", severity: "high" });
+      ctx.upsertEvidence({
+        id: "e-spo2",
+        summary: "SpO2 89%",
+        severity: "medium",
+        tags: [{ key: "urgency", value: "immediate" }],
+      });
+    });
+
+    afterEach(() => {
+      unregisterScorer("signalStrength");
+    });
+
+    const selected = () => ctx.lanes.get("immediate")?.window.selected.map((r) => r.id);
+
+    test("should boost tagged items with tagBoost", () => {
+      ctx.refreshLaneSelection("immediate");
+      expect(selected()).toEqual(["e-hr"]);
+
+      ctx.lanes.get("immediate")?.setWindowPolicy({
+        scorers: [{ name: "tagBoost", params: { key: "urgency", value: "immediate", add: 5 } }],
+      });
+      ctx.refreshLaneSelection("immediate");
+
+      expect(selected()).toEqual(["e-spo2"]);
+    });
+
+    test("should chain scorers starting from the default score", () => {
+      const seen: number[] = [];
+      registerScorer("signalStrength", ({ item, score }) => {
+        seen.push(score);
+        const signal = (item.tags as { key: string; value?: string }[]).find(
+          (t) => t.key === "signal",
+        );
+        return signal ? score + Number(signal.value) : score;
+      });
+      ctx.patchEvidence("e-hr", { tags: [{ key: "signal", value: "0.5" }] });
+      const policy = ctx.lanes.get("immediate")!.window.policy;
+      const base = ctx.scoreRef(policy, "evidence", "e-hr");
+
+      ctx.lanes.get("immediate")?.setWindowPolicy({
+        scorers: [
+          { name: "tagBoost", params: { key: "signal", multiply: 2 } },
+          { name: "signalStrength" },
+        ],
+      });
+
+      expect(ctx.scoreRef(policy, "evidence", "e-hr")).toBeCloseTo(base * 2 + 0.5);
+      expect(seen[0]).toBeCloseTo(base * 2);
+    });
+
+    test("should keep scorer references in snapshots", () => {
+      ctx.lanes.get("immediate")?.setWindowPolicy({
+        scorers: [{ name: "tagBoost", params: { key: "urgency", add: 5 } }],
+      });
+
+      const restored = ActiveMetaContext.create(getSnapshot(ctx));
+
+      expect(getSnapshot(restored.lanes.get("immediate")!.window.policy.scorers)).toEqual([
+        { name: "tagBoost", params: { key: "urgency", add: 5 } },
+      ]);
+    });
+
+    test("should reject unregistered scorer names", () => {
+      expect(() =>
+        ctx.lanes.get("immediate")?.setWindowPolicy({ scorers: [{ name: "nope" }] }),
+      ).toThrow();
+    });
+  });
+  describe("Query Relevance", () => {
+    beforeEach(() => {
+      ctx.ensureLane("markets", "Markets");
+      ctx.lanes.get("markets")?.setWindowPolicy({ includeKinds: ["evidence"], maxItems: 1 });
+      ctx.upsertEvidence({ id: "e-btc", summary: "BTC funding rates spiking", severity: "high" });
+      ctx.upsertEvidence({
+        id: "e-eth",
+        summary: "ETH staking outflows rising",
+        severity: "medium",
+      });
+      ctx.upsertEvidence({ id: "e-fed", summary: "Fed minutes due Wednesday", severity: "medium" });
+    });
+
+    afterEach(() => {
+      unregisterEmbedder("constant");
+    });
+
+    const selected = () => ctx.lanes.get("markets")?.window.selected.map((r) => r.id);
+
+    test("should prefer items similar to the query", () => {
+      ctx.refreshLaneSelection("markets");
+      expect(selected()).toEqual(["e-btc"]);
+
+      ctx.refreshLaneSelection("markets", { query: "What do ETH staking outflows mean?" });
+
+      expect(selected()).toEqual(["e-eth"]);
+      expect(ctx.lanes.get("markets")?.window.selected[0]?.queryRelevance).toBeGreaterThan(0);
+    });
+
+    test("should ignore the query when wRelevance is 0", () => {
+      ctx.lanes.get("markets")?.setWindowPolicy({ wRelevance: 0 });
+      ctx.refreshLaneSelection("markets", { query: "ETH staking outflows" });
+      expect(selected()).toEqual(["e-btc"]);
+    });
+
+    test("should record the query on working memory and the payload", () => {
+      ctx.synthesizeFromLanes({ tokenBudget: 200, query: "Fed minutes" });
+
+      expect(ctx.workingMemory.query).toBe("Fed minutes");
+      expect(ctx.workingMemory.text).toContain("Fed minutes due Wednesday");
+      expect(ctx.buildLLMContextPayload().workingMemory.query).toBe("Fed minutes");
+
+      ctx.synthesizeFromLanes({ tokenBudget: 200 });
+      expect(ctx.workingMemory.query).toBeUndefined();
+    });
+
+    test("should use a registered embedder", () => {
+      const calls: string[][] = [];
+      registerEmbedder("constant", {
+        embed: (texts) => {
+          calls.push(texts);
+          return texts.map((t) => (t.includes("Fed") || t === "rates?" ? [1, 0] : [0, 1]));
+        },
+      });
+      ctx.lanes.get("markets")?.setWindowPolicy({ embedder: "constant" });
+
+      ctx.refreshLaneSelection("markets", { query: "rates?" });
+
+      expect(calls[0]?.[0]).toBe("rates?");
+      expect(calls[0]).toHaveLength(4);
+      expect(selected()).toEqual(["e-fed"]);
+      expect(() => registerEmbedder("hashingTfidf", { embed: () => [] })).toThrow();
+      expect(() => ctx.lanes.get("markets")?.setWindowPolicy({ embedder: "nope" })).toThrow();
+    });
+  });
+  describe("Diversity Re-ranking", () => {
+    beforeEach(() => {
+      ctx.ensureLane("vitals", "Vitals");
+      ctx.lanes.get("vitals")?.setWindowPolicy({ includeKinds: ["evidence"], maxItems: 2 });
+      ctx.upsertEvidence({
+        id: "e-hr-1",
+        summary: "Heart rate 130 bpm at triage",
+        severity: "critical",
+      });
+      ctx.upsertEvidence({
+        id: "e-hr-2",
+        summary: "Heart rate 131 bpm at triage",
+        severity: "high",
+      });
+      ctx.upsertEvidence({ id: "e-lactate", summary: "Lactate 4.1 mmol/L", severity: "medium" });
+    });
+
+    afterEach(() => {
+      unregisterSimilarity("sameTag");
+    });
+
+    const selected = () => ctx.lanes.get("vitals")?.window.selected.map((r) => r.id);
+
+    test("should select by score alone by default", () => {
+      ctx.refreshLaneSelection("vitals");
+
+      expect(selected()).toEqual(["e-hr-1", "e-hr-2"]);
+      expect(ctx.lanes.get("vitals")?.window.report.redundant).toEqual([]);
+    });
+
+    test("should skip near-duplicates with mmr and report them", () => {
+      const events: LaneRefreshedEvent[] = [];
+      ctx.hooks.on("lane:refreshed", (e) => events.push(e));
+      ctx.lanes.get("vitals")?.setWindowPolicy({ diversity: "mmr" });
+
+      ctx.refreshLaneSelection("vitals");
+
+      expect(selected()).toEqual(["e-hr-1", "e-lactate"]);
+      const [skip] = ctx.lanes.get("vitals")!.window.report.redundant;
+      expect(skip).toMatchObject({
+        kind: "evidence",
+        id: "e-hr-2",
+        similarTo: { kind: "evidence", id: "e-hr-1" },
+      });
+      expect(skip?.similarity).toBeGreaterThan(0.7);
+      expect(events[0]?.redundant).toHaveLength(1);
+    });
+
+    test("should fall back to score order with lambda 1", () => {
+      ctx.lanes.get("vitals")?.setWindowPolicy({ diversity: "mmr", diversityLambda: 1 });
+      ctx.refreshLaneSelection("vitals");
+      expect(selected()).toEqual(["e-hr-1", "e-hr-2"]);
+    });
+
+    test("should treat pinned items as already selected", () => {
+      ctx.lanes.get("vitals")?.setWindowPolicy({ diversity: "mmr", diversityLambda: 0.5 });
+      ctx.pinInLane("vitals", "evidence", "e-hr-2");
+
+      ctx.refreshLaneSelection("vitals");
+
+      expect(selected()).toEqual(["e-hr-2", "e-lactate"]);
+    });
+
+    test("should use a registered similarity function", () => {
+      registerSimilarity("sameTag", (a, b) =>
+        a.tags.some((t) => b.tags.some((u) => u.key === t.key)) ? 1 : 0,
+      );
+      ctx.patchEvidence("e-hr-2", { tags: [{ key: "lab" }] });
+      ctx.patchEvidence("e-lactate", { tags: [{ key: "lab" }] });
+      ctx.lanes.get("vitals")?.setWindowPolicy({ diversity: "mmr", similarity: "sameTag" });
+
+      ctx.refreshLaneSelection("vitals");
+
+      expect(selected()).toEqual(["e-hr-1", "e-hr-2"]);
+      expect(() => ctx.lanes.get("vitals")?.setWindowPolicy({ similarity: "nope" })).toThrow();
+      expect(() => ctx.lanes.get("vitals")?.setWindowPolicy({ diversityLambda: 2 })).toThrow();
+    });
+  });
+  describe("Token Budget Selection", () => {
+    const long =
+      "Patient reports intermittent chest pain radiating to the left arm over the past three days, worse on exertion, with associated shortness of breath and diaphoresis";
+
+    beforeEach(() => {
+      ctx.ensureLane("vitals", "Vitals");
+      ctx.lanes.get("vitals")?.setWindowPolicy({ includeKinds: ["evidence"], tokenBudget: 20 });
+      ctx.upsertEvidence({ id: "e-history", summary: long, severity: "critical" });
+      ctx.upsertEvidence({ id: "e-hr", summary: "HR 130", severity: "high" });
+      ctx.upsertEvidence({ id: "e-bp", summary: "BP 90/60", severity: "high" });
+    });
+
+    const lane = () => ctx.lanes.get("vitals")!.window;
+
+    test("should pick the best items that fit the budget", () => {
+      ctx.refreshLaneSelection("vitals");
+
+      expect(
+        lane()
+          .selected.map((r) => r.id)
+          .sort(),
+      ).toEqual(["e-bp", "e-hr"]);
+      const tokens = lane().report.tokens!;
+      expect(tokens.budget).toBe(20);
+      expect(tokens.used).toBeGreaterThan(0);
+      expect(tokens.used).toBeLessThanOrEqual(20);
+    });
+
+    test("should still cap at maxItems within the budget", () => {
+      ctx.lanes.get("vitals")?.setWindowPolicy({ tokenBudget: 500 });
+      ctx.refreshLaneSelection("vitals");
+      expect(lane().selected).toHaveLength(3);
+
+      ctx.lanes.get("vitals")?.setWindowPolicy({ maxItems: 2 });
+      ctx.refreshLaneSelection("vitals");
+      expect(lane().selected.map((r) => r.id)).toHaveLength(2);
+      expect(lane().selected.map((r) => r.id)).toContain("e-history");
+    });
+
+    test("should apply diversity within the budget", () => {
+      ctx.upsertEvidence({ id: "e-hr-2", summary: "HR 131", severity: "high" });
+      ctx.patchEvidence("e-bp", { severity: "medium" });
+      ctx.lanes
+        .get("vitals")
+        ?.setWindowPolicy({ maxItems: 2, diversity: "mmr", diversityLambda: 0.3 });
+
+      ctx.refreshLaneSelection("vitals");
+
+      const ids = lane().selected.map((r) => r.id);
+      expect(ids).toContain("e-bp");
+      expect(ids.filter((id) => id.startsWith("e-hr"))).toHaveLength(1);
+      expect(lane().report.redundant.length).toBeGreaterThan(0);
+      expect(lane().report.tokens!.used).toBeLessThanOrEqual(20);
+    });
+
+    test("should keep pinned items even past the budget", () => {
+      const events: LaneRefreshedEvent[] = [];
+      ctx.hooks.on("lane:refreshed", (e) => events.push(e));
+      ctx.pinInLane("vitals", "evidence", "e-history");
+
+      ctx.refreshLaneSelection("vitals");
+
+      expect(lane().selected.map((r) => r.id)).toEqual(["e-history"]);
+      expect(lane().report.tokens!.used).toBeGreaterThan(20);
+      expect(events[0]?.tokens).toEqual(lane().report.tokens);
+    });
+
+    test("should budget the merged active window", () => {
+      ctx.lanes.get("vitals")?.setWindowPolicy({ tokenBudget: undefined });
+      ctx.activeWindow.setPolicy({ tokenBudget: 20 });
+
+      ctx.refreshAllLanes();
+      ctx.mergeLanesToActiveWindow();
+
+      expect(ctx.activeWindow.selected.map((r) => r.id).sort()).toEqual(["e-bp", "e-hr"]);
+      expect(ctx.activeWindow.report.tokens?.used).toBeLessThanOrEqual(20);
+    });
+
+    test("should leave count-based selection unreported", () => {
+      ctx.lanes.get("vitals")?.setWindowPolicy({ tokenBudget: undefined });
+      ctx.refreshLaneSelection("vitals");
+
+      expect(lane().selected).toHaveLength(3);
+      expect(lane().report.tokens).toBeUndefined();
+    });
+  });
+  describe("Kind Quotas", () => {
+    beforeEach(() => {
+      ctx.ensureLane("task", "Task");
+      ctx.lanes
+        .get("task")
+        ?.setWindowPolicy({ includeKinds: ["evidence", "constraint", "question"], maxItems: 3 });
+      for (let i = 1; i <= 4; i++) {
+        ctx.upsertEvidence({ id: `e-${i}`, summary: `Reading ${i}`, severity: "critical" });
+      }
+      ctx.upsertConstraint({ id: "c-budget", statement: "Stay under budget" });
+      ctx.upsertConstraint({ id: "c-deadline", statement: "Ship by Friday" });
+    });
+
+    const kinds = () => ctx.lanes.get("task")!.window.selected.map((r) => r.kind);
+
+    test("should reserve room for kinds below their minimum", () => {
+      ctx.refreshLaneSelection("task");
+      expect(kinds()).toEqual(["evidence", "evidence", "evidence"]);
+
+      ctx.lanes.get("task")?.setWindowPolicy({ kindQuotas: { constraint: { min: 2 } } });
+      ctx.refreshLaneSelection("task");
+
+      expect(kinds().filter((k) => k === "constraint")).toHaveLength(2);
+      expect(kinds()).toHaveLength(3);
+      expect(ctx.lanes.get("task")?.window.report.unmetQuotas).toBeUndefined();
+    });
+
+    test("should cap kinds at their maximum", () => {
+      ctx.lanes.get("task")?.setWindowPolicy({ kindQuotas: { evidence: { max: 1 } } });
+      ctx.refreshLaneSelection("task");
+
+      expect(kinds().sort()).toEqual(["constraint", "constraint", "evidence"]);
+    });
+
+    test("should count pinned items toward quotas", () => {
+      ctx.pinInLane("task", "constraint", "c-budget");
+      ctx.lanes.get("task")?.setWindowPolicy({ kindQuotas: { constraint: { min: 1, max: 1 } } });
+
+      ctx.refreshLaneSelection("task");
+
+      expect(ctx.lanes.get("task")!.window.selected[0]?.id).toBe("c-budget");
+      expect(kinds()).toEqual(["constraint", "evidence", "evidence"]);
+    });
+
+    test("should explain minimums that cannot be met", () => {
+      const events: LaneRefreshedEvent[] = [];
+      ctx.hooks.on("lane:refreshed", (e) => events.push(e));
+      ctx.lanes.get("task")?.setWindowPolicy({
+        maxItems: 1,
+        kindQuotas: { question: { min: 1 }, constraint: { min: 2 } },
+      });
+
+      ctx.refreshLaneSelection("task");
+
+      expect(ctx.lanes.get("task")?.window.report.unmetQuotas).toEqual([
+        {
+          kind: "question",
+          min: 1,
+          selected: 0,
+          eligible: 0,
+          message: "needs 1 question items, only 0 eligible",
+        },
+        {
+          kind: "constraint",
+          min: 2,
+          selected: 1,
+          eligible: 2,
+          message: "needs 2 constraint items, maxItems reached",
+        },
+      ]);
+      expect(events[0]?.unmetQuotas).toHaveLength(2);
+    });
+
+    test("should count reserved items against the token budget", () => {
+      ctx.lanes.get("task")?.setWindowPolicy({
+        tokenBudget: 6,
+        kindQuotas: { constraint: { min: 2 } },
+      });
+
+      ctx.refreshLaneSelection("task");
+
+      const window = ctx.lanes.get("task")!.window;
+      expect(kinds()).toContain("constraint");
+      expect(window.report.tokens!.used).toBeLessThanOrEqual(6);
+      expect(window.report.unmetQuotas).toEqual([
+        expect.objectContaining({
+          kind: "constraint",
+          selected: 1,
+          message: "needs 2 constraint items, token budget reached",
+        }),
+      ]);
+    });
+
+    test("should apply quotas when merging into the active window", () => {
+      ctx.lanes.get("task")?.setWindowPolicy({ maxItems: 10 });
+      ctx.activeWindow.setPolicy({ maxItems: 2, kindQuotas: { constraint: { min: 1 } } });
+
+      ctx.refreshAllLanes();
+      ctx.mergeLanesToActiveWindow();
+
+      expect(ctx.activeWindow.selected.map((r) => r.kind)).toContain("constraint");
+      expect(ctx.activeWindow.selected).toHaveLength(2);
+    });
+
+    test("should reject a minimum above the maximum", () => {
+      expect(() =>
+        ctx.lanes.get("task")?.setWindowPolicy({ kindQuotas: { evidence: { min: 3, max: 1 } } }),
+      ).toThrow();
+    });
+  });
+  describe("Tag Filter Expressions", () => {
+    beforeEach(() => {
+      ctx.ensureLane("immediate", "Immediate");
+      ctx.lanes.get("immediate")?.setWindowPolicy({ includeKinds: ["evidence"] });
+      ctx.upsertEvidence({
+        id: "e-spo2",
+        summary: "SpO2 89%",
+        tags: [
+          { key: "lane", value: "task" },
+          { key: "urgency", value: "immediate" },
+          { key: "news2", value: "7" },
+        ],
+      });
+      ctx.upsertEvidence({
+        id: "e-hr",
+        summary: "HR 110",
+        tags: [
+          { key: "lane", value: "task" },
+          { key: "news2", value: "3" },
+        ],
+      });
+      ctx.upsertEvidence({
+        id: "e-note",
+        summary: "Family asked about visiting hours",
+        tags: [{ key: "urgency", value: "immediate-ish" }, { key: "source" }],
+      });
+    });
+
+    const ids = (refs: { id: string }[] | undefined) => refs?.map((r) => r.id).sort();
+
+    test("should require all tags with an all filter", () => {
+      ctx.lanes.get("immediate")?.setTagFilter({
+        all: [
+          { key: "lane", equals: "task" },
+          { key: "urgency", equals: "immediate" },
+        ],
+      });
+
+      ctx.refreshLaneSelection("immediate");
+
+      expect(ids(ctx.lanes.get("immediate")?.window.selected)).toEqual(["e-spo2"]);
+    });
+
+    test("should AND the filter with includeTagsAny", () => {
+      ctx.lanes.get("immediate")?.setIncludeTagsAny([{ key: "lane", value: "task" }]);
+      ctx.lanes.get("immediate")?.setTagFilter({ not: { key: "urgency" } });
+
+      expect(ids(ctx.getTagFilterMatches("immediate"))).toEqual(["e-hr"]);
+    });
+
+    test("should support presence, prefix, regex and numeric predicates", () => {
+      expect(ids(ctx.getTagFilterMatches({ key: "source" }))).toEqual(["e-note"]);
+      expect(ids(ctx.getTagFilterMatches({ key: "urgency", prefix: "immediate" }))).toEqual([
+        "e-note",
+        "e-spo2",
+      ]);
+      expect(ids(ctx.getTagFilterMatches({ key: "urgency", regex: "^immediate$" }))).toEqual([
+        "e-spo2",
+      ]);
+      const global = { key: "urgency", regex: "^IMMEDIATE", flags: "gi" };
+      expect(ids(ctx.getTagFilterMatches(global))).toEqual(["e-note", "e-spo2"]);
+      expect(ids(ctx.getTagFilterMatches(global))).toEqual(["e-note", "e-spo2"]);
+      expect(ids(ctx.getTagFilterMatches({ key: "news2", gte: 5 }))).toEqual(["e-spo2"]);
+      expect(
+        ids(ctx.getTagFilterMatches({ any: [{ key: "news2", lt: 5 }, { key: "source" }] })),
+      ).toEqual(["e-hr", "e-note"]);
+    });
+
+    test("should keep the filter in snapshots", () => {
+      const filter = { all: [{ key: "news2", gt: 4 }, { not: { key: "source" } }] };
+      ctx.lanes.get("immediate")?.setTagFilter(filter);
+
+      const restored = ActiveMetaContext.create(getSnapshot(ctx));
+
+      expect(restored.lanes.get("immediate")?.tagFilter).toEqual(filter);
+      expect(ids(restored.getTagFilterMatches("immediate"))).toEqual(["e-spo2"]);
+    });
+
+    test("should reject malformed filters", () => {
+      const lane = ctx.lanes.get("immediate")!;
+      expect(() => lane.setTagFilter({ key: "urgency", regex: "(" })).toThrow();
+      expect(() => lane.setTagFilter({ all: [{ key: "a" }], key: "b" } as never)).toThrow();
+      expect(() => lane.setTagFilter({ key: "news2", gt: "4" } as never)).toThrow();
+      expect(() => lane.setTagFilter({ key: "urgency", prefix: 5 } as never)).toThrow(
+        /prefix must be a string/,
+      );
+      expect(() => lane.setTagFilter({ key: "urgency", equals: null } as never)).toThrow();
+      expect(() => lane.setTagFilter({ key: "urgency", regex: "x", flags: 1 } as never)).toThrow();
+      expect(() => ctx.getTagFilterMatches({ not: {} } as never)).toThrow(/key must be a string/);
+    });
+  });
 });
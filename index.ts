@@ -1,4 +1,19 @@
-import { types, flow, type Instance, type SnapshotIn, getSnapshot } from "mobx-state-tree";
+import {
+  types,
+  flow,
+  type Instance,
+  type SnapshotIn,
+  type SnapshotOut,
+  type IAnyModelType,
+  type IAnyType,
+  getSnapshot,
+  applySnapshot,
+  isStateTreeNode,
+  addMiddleware,
+  addDisposer,
+  getParent,
+  hasParent,
+} from "mobx-state-tree";
 import { countTokensSync } from "./custom_tokenizer";
 
 // Re-export MST types for consumers
@@ -25,10 +40,9 @@ export { types, type Instance, type SnapshotIn } from "mobx-state-tree";
 /** ---------- Hook Types ---------- */
 
 /**
- * The six types of knowledge objects managed by the framework.
- * Used for type discrimination in hook events and item references.
+ * The six built-in types of knowledge objects managed by the framework.
  */
-export type KnowledgeObjectKind =
+export type BuiltInKnowledgeObjectKind =
   | "goal"
   | "constraint"
   | "assumption"
@@ -36,6 +50,180 @@ export type KnowledgeObjectKind =
   | "question"
   | "decision";
 
+/**
+ * Kind of a knowledge object: one of the built-ins or a kind registered via
+ * `registerKnowledgeObjectKind()`.
+ * Used for type discrimination in hook events and item references.
+ */
+export type KnowledgeObjectKind = BuiltInKnowledgeObjectKind | (string & {});
+
+/**
+ * Typed edge kinds between knowledge objects.
+ * - **supports**: `from` backs up `to` (e.g. evidence supports a decision)
+ * - **contradicts**: `from` disagrees with `to`
+ * - **answers**: `from` answers the question `to`
+ * - **supersedes**: `from` replaces `to`
+ * - **derivedFrom**: `from` was produced from `to`
+ * - **duplicateOf**: `from` is a near-duplicate of evidence `to` (set by `ingestEvidence` dedup)
+ */
+export type RelationType =
+  "supports" | "contradicts" | "answers" | "supersedes" | "derivedFrom" | "duplicateOf";
+
+/**
+ * Lifecycle of an evidence item. Only "active" evidence is selected by default.
+ */
+export type EvidenceStatus = "active" | "retracted" | "superseded" | "archived";
+
+/**
+ * Decision status: the shared lifecycle plus "superseded" for decisions replaced by a newer one.
+ */
+export type DecisionStatus = "active" | "paused" | "done" | "archived" | "superseded";
+
+/**
+ * Assumption status: the shared lifecycle plus "validated" / "invalidated", set when
+ * attached evidence pushes confidence past the `assumptionPolicy` thresholds.
+ */
+export type AssumptionStatus =
+  "active" | "paused" | "done" | "archived" | "validated" | "invalidated";
+
+/**
+ * How far an item's confidence and severity have decayed under its kind's decay policy.
+ * Only the fields that actually changed are present.
+ */
+export interface DecayedValues {
+  /** Hours since the item was last updated (or created) */
+  ageHours: number;
+  /** Stored confidence and the decayed value used for scoring */
+  confidence?: { original: "low" | "medium" | "high" | number; effective: number };
+  /** Stored severity and the downgraded value used for scoring */
+  severity?: {
+    original: "low" | "medium" | "high" | "critical";
+    effective: "low" | "medium" | "high" | "critical";
+  };
+}
+
+/**
+ * A goal's progress and status derived from its sub-goals. See `getGoalRollup()`.
+ */
+export interface GoalRollup {
+  goalId: string;
+  /** 0..100: own progress for leaf goals, mean of non-archived sub-goals otherwise */
+  progress: number;
+  /** Own status for leaf goals; derived from sub-goals otherwise (archived goals stay archived) */
+  status: "active" | "paused" | "done" | "archived";
+  /** Rollups of the direct sub-goals */
+  children: GoalRollup[];
+}
+
+/**
+ * A constraint a decision fails, as reported by `checkDecision()`.
+ */
+export interface ConstraintViolation {
+  constraintId: string;
+  statement: string;
+  strength: "hard" | "soft";
+  /** One message per failed predicate */
+  messages: string[];
+}
+
+/**
+ * Result of `checkDecision()`. `ok` is false if any hard constraint is violated.
+ */
+export interface DecisionCheckResult {
+  ok: boolean;
+  violations: ConstraintViolation[];
+}
+
+/**
+ * Where a knowledge object came from (`provenance.source`).
+ */
+export type ProvenanceSource = "user" | "system" | "tool" | "doc" | "web" | "inference";
+
+/**
+ * What a redaction rule masked in one item's text, reported alongside redacted output.
+ */
+export interface RedactionHit {
+  kind: KnowledgeObjectKind;
+  id: string;
+  ruleId: string;
+  /** Number of masked occurrences (1 for a whole-item mask) */
+  count: number;
+}
+
+/**
+ * An item that scored high enough for a lane but was left out as redundant by diversity
+ * re-ranking, with the selected item it is most similar to.
+ */
+export interface RedundantSkip {
+  kind: KnowledgeObjectKind;
+  id: string;
+  score: number;
+  similarTo: { kind: KnowledgeObjectKind; id: string };
+  similarity: number;
+}
+
+/**
+ * How a window's last selection was made, beyond the selected refs themselves.
+ */
+export interface SelectionReport {
+  /** Items displaced by diversity re-ranking (empty unless `diversity` is "mmr") */
+  redundant: RedundantSkip[];
+  /** Token budget and the rendered tokens the selection uses (only with `tokenBudget`) */
+  tokens?: SelectionTokenUsage;
+  /** Kinds whose `kindQuotas` minimum could not be met */
+  unmetQuotas?: QuotaShortfall[];
+}
+
+/**
+ * A per-kind minimum the selection fell short of, and why.
+ */
+export interface QuotaShortfall {
+  kind: KnowledgeObjectKind;
+  min: number;
+  /** How many items of the kind were selected (pinned included) */
+  selected: number;
+  /** How many items of the kind were eligible (pinned included) */
+  eligible: number;
+  /**
+   * Human-readable explanation, e.g. "needs 2 constraint items, only 1 eligible"
+   * (or "maxItems reached" / "token budget reached")
+   */
+  message: string;
+}
+
+/**
+ * Token usage of a budgeted selection. `used` includes pinned items, so it can exceed
+ * `budget` when the pinned items alone do.
+ */
+export interface SelectionTokenUsage {
+  budget: number;
+  used: number;
+}
+
+/**
+ * A tagging rule that fires for an item, as reported by `dryRunTaggingRules()`.
+ */
+export interface TaggingRuleMatch {
+  ruleId: string;
+  tags: { key: string; value?: string }[];
+}
+
+/**
+ * Plain reference to a knowledge object, used as relation endpoints and in relation events.
+ */
+export interface ItemRef {
+  kind: KnowledgeObjectKind;
+  id: string;
+}
+
+/**
+ * Optional metadata about who made a change, recorded in revision history.
+ */
+export interface ChangeMeta {
+  /** Actor responsible for the change (user id, agent name, pipeline, …) */
+  by?: string;
+}
+
 /**
  * Base interface for all hook events.
  * All events include timing and context identification.
@@ -72,6 +260,8 @@ export interface KnowledgeObjectUpsertedEvent extends HookEventBase {
   item: Record<string, unknown>;
   /** True if this was a new item, false if it was an update to an existing item */
   isNew: boolean;
+  /** For updates: the top-level fields whose values changed (excluding `updatedAt`) */
+  changedFields?: string[];
 }
 
 /**
@@ -135,6 +325,12 @@ export interface LaneRefreshedEvent extends HookEventBase {
   selectedCount: number;
   /** Array of selected item references with their scores */
   selected: Array<{ kind: string; id: string; score: number; pinned: boolean }>;
+  /** Items left out as redundant by diversity re-ranking */
+  redundant: RedundantSkip[];
+  /** Budget consumed, when the lane selects by `tokenBudget` */
+  tokens?: SelectionTokenUsage;
+  /** Kinds whose minimum in `kindQuotas` could not be met */
+  unmetQuotas?: QuotaShortfall[];
 }
 
 /**
@@ -159,6 +355,10 @@ export interface ActiveWindowMergedEvent extends HookEventBase {
   fromLanes: string[];
   /** Array of merged item references with their scores */
   selected: Array<{ kind: string; id: string; score: number; pinned: boolean }>;
+  /** Budget consumed, when the active window selects by `tokenBudget` */
+  tokens?: SelectionTokenUsage;
+  /** Kinds whose minimum in the active window's `kindQuotas` could not be met */
+  unmetQuotas?: QuotaShortfall[];
 }
 
 /**
@@ -195,10 +395,224 @@ export interface ArchiveCreatedEvent extends HookEventBase {
  */
 export interface EvidenceIngestedEvent extends HookEventBase {
   type: "evidence:ingested";
-  /** The unique identifier of the ingested evidence */
+  /**
+   * ID of the stored evidence: the input's ID, or the existing item it was merged into
+   * (the input's ID is then never stored)
+   */
   evidenceId: string;
   /** True if synthesis was performed during ingestion */
   synthesized: boolean;
+  /**
+   * Set when dedup matched an existing item: "merged" means the input was folded into
+   * `duplicateOf` and not stored; "linked" means it was stored as superseded and linked.
+   */
+  dedup?: { action: "merged" | "linked"; duplicateOf: string; similarity: number };
+}
+
+/**
+ * Emitted when a new relation is added via `link()`.
+ * Not emitted when the same relation already exists.
+ */
+export interface RelationLinkedEvent extends HookEventBase {
+  type: "relation:linked";
+  /** The unique identifier of the relation (`type:fromKind:fromId->toKind:toId`) */
+  relationId: string;
+  /** The relation type */
+  relationType: RelationType;
+  /** The source of the edge */
+  from: ItemRef;
+  /** The target of the edge */
+  to: ItemRef;
+}
+
+/**
+ * Emitted when a relation is removed via `unlink()`.
+ */
+export interface RelationUnlinkedEvent extends HookEventBase {
+  type: "relation:unlinked";
+  /** The unique identifier of the removed relation */
+  relationId: string;
+  /** The relation type */
+  relationType: RelationType;
+  /** The source of the edge */
+  from: ItemRef;
+  /** The target of the edge */
+  to: ItemRef;
+}
+
+/**
+ * Emitted when a knowledge object is deleted via `removeKnowledgeObject()`.
+ * Fires after pins, window selections and relations referencing the item were cleaned up.
+ */
+export interface KnowledgeObjectRemovedEvent extends HookEventBase {
+  type: "knowledgeObject:removed";
+  /** The type of knowledge object that was removed */
+  kind: KnowledgeObjectKind;
+  /** The unique identifier of the removed item */
+  id: string;
+  /** A snapshot of the item's data just before removal */
+  item: Record<string, unknown>;
+  /** IDs of lanes whose pins or selection referenced the item */
+  lanesCleaned: string[];
+  /** Number of relations dropped because they touched the item */
+  relationsRemoved: number;
+  /** True if a tombstone was recorded for the item */
+  tombstoned: boolean;
+}
+
+/**
+ * Emitted when evidence changes status via `setEvidenceStatus()`, or via an upsert or patch
+ * that changes `status` (e.g. retracted or superseded). Not emitted if the status is unchanged.
+ */
+export interface EvidenceStatusChangedEvent extends HookEventBase {
+  type: "evidence:statusChanged";
+  /** The unique identifier of the evidence */
+  evidenceId: string;
+  /** The previous status */
+  oldStatus: EvidenceStatus;
+  /** The new status */
+  newStatus: EvidenceStatus;
+  /** Why the status changed, if given */
+  reason?: string;
+}
+
+/**
+ * Emitted once when a `batch()` or `upsertMany()` commits, in place of the individual
+ * `knowledgeObject:upserted` events of the items it wrote. Not emitted on rollback.
+ */
+export interface KnowledgeObjectsBatchUpsertedEvent extends HookEventBase {
+  type: "knowledgeObjects:batchUpserted";
+  /** Number of upserts in the batch */
+  count: number;
+  /** Per-item details, in the order the upserts happened */
+  items: Array<{
+    kind: KnowledgeObjectKind;
+    id: string;
+    isNew: boolean;
+    changedFields?: string[];
+    item: Record<string, unknown>;
+  }>;
+}
+
+/**
+ * Emitted when a question is resolved via `answerQuestion()`.
+ * Fires after the `relation:linked` event for the `answers` edge.
+ */
+export interface QuestionAnsweredEvent extends HookEventBase {
+  type: "question:answered";
+  /** The unique identifier of the answered question */
+  questionId: string;
+  /** The knowledge object that answered it */
+  by: ItemRef;
+  /** Short statement of the answer */
+  summary: string;
+  /** True if the question already had an answer that was replaced */
+  reanswered: boolean;
+}
+
+/**
+ * Emitted when a decision is replaced by a newer one that declares `supersedes`.
+ * Fires after the new decision's `knowledgeObject:upserted` and the `supersedes` relation.
+ */
+export interface DecisionSupersededEvent extends HookEventBase {
+  type: "decision:superseded";
+  /** The decision that was replaced (now status "superseded") */
+  decisionId: string;
+  /** The decision that replaced it */
+  supersededBy: string;
+  /** Status of the replaced decision before the transition */
+  previousStatus: DecisionStatus;
+}
+
+/**
+ * Emitted when attached evidence changes an assumption's confidence.
+ */
+export interface AssumptionConfidenceUpdatedEvent extends HookEventBase {
+  type: "assumption:confidenceUpdated";
+  /** The unique identifier of the assumption */
+  assumptionId: string;
+  /** Confidence before the update (a label until the first update) */
+  previousConfidence: "low" | "medium" | "high" | number;
+  /** The recomputed confidence (0..1) */
+  confidence: number;
+  /** Name of the update rule that produced it */
+  rule: string;
+  /** IDs of active evidence counted as confirming */
+  confirming: string[];
+  /** IDs of active evidence counted as refuting */
+  refuting: string[];
+}
+
+/**
+ * Emitted when a confidence update moves an assumption between
+ * "active", "validated" and "invalidated". Follows `assumption:confidenceUpdated`.
+ */
+export interface AssumptionStatusChangedEvent extends HookEventBase {
+  type: "assumption:statusChanged";
+  /** The unique identifier of the assumption */
+  assumptionId: string;
+  /** The previous status */
+  previousStatus: AssumptionStatus;
+  /** The new status */
+  status: AssumptionStatus;
+  /** The confidence that triggered the change */
+  confidence: number;
+}
+
+/**
+ * Emitted by `checkDecision()` once per active constraint the decision violates.
+ */
+export interface ConstraintViolatedEvent extends HookEventBase {
+  type: "constraint:violated";
+  /** The violated constraint */
+  constraintId: string;
+  /** Whether the violation blocks the decision */
+  strength: "hard" | "soft";
+  /** The checked decision's ID */
+  decisionId: string;
+  /** One message per failed predicate */
+  messages: string[];
+}
+
+/**
+ * Emitted when a contradiction detector finds a new conflict between two items.
+ */
+export interface ConflictDetectedEvent extends HookEventBase {
+  type: "conflict:detected";
+  /** The conflict's identifier (`kind:id<>kind:id`) */
+  conflictId: string;
+  a: ItemRef;
+  b: ItemRef;
+  /** Name of the detector that found it */
+  detector: string;
+  reason: string;
+}
+
+/**
+ * Emitted when a conflict is resolved, either via `resolveConflict()` or automatically
+ * because the two items no longer disagree (or one was retracted or removed).
+ */
+export interface ConflictResolvedEvent extends HookEventBase {
+  type: "conflict:resolved";
+  conflictId: string;
+  /** Resolution note passed to `resolveConflict()` */
+  resolution?: string;
+  /** True when detection found the conflict no longer holds */
+  automatic: boolean;
+}
+
+/**
+ * Emitted when tagging rules are added, removed or re-run via `retagAll()`.
+ * Lists only the items whose rule-assigned tags changed; not emitted if none did.
+ */
+export interface TagsReevaluatedEvent extends HookEventBase {
+  type: "tags:reevaluated";
+  changes: Array<{
+    kind: KnowledgeObjectKind;
+    id: string;
+    added: Array<{ key: string; value?: string; rule: string }>;
+    removed: Array<{ key: string; value?: string; rule: string }>;
+  }>;
 }
 
 /**
@@ -230,7 +644,20 @@ export type HookEvent =
   | ActiveWindowMergedEvent
   | WorkingMemorySynthesizedEvent
   | ArchiveCreatedEvent
-  | EvidenceIngestedEvent;
+  | EvidenceIngestedEvent
+  | RelationLinkedEvent
+  | RelationUnlinkedEvent
+  | KnowledgeObjectRemovedEvent
+  | EvidenceStatusChangedEvent
+  | KnowledgeObjectsBatchUpsertedEvent
+  | QuestionAnsweredEvent
+  | DecisionSupersededEvent
+  | AssumptionConfidenceUpdatedEvent
+  | AssumptionStatusChangedEvent
+  | ConstraintViolatedEvent
+  | ConflictDetectedEvent
+  | ConflictResolvedEvent
+  | TagsReevaluatedEvent;
 
 /**
  * String literal union of all hook event type identifiers.
@@ -263,6 +690,19 @@ export interface HookEventMap {
   "workingMemory:synthesized": WorkingMemorySynthesizedEvent;
   "archive:created": ArchiveCreatedEvent;
   "evidence:ingested": EvidenceIngestedEvent;
+  "relation:linked": RelationLinkedEvent;
+  "relation:unlinked": RelationUnlinkedEvent;
+  "knowledgeObject:removed": KnowledgeObjectRemovedEvent;
+  "evidence:statusChanged": EvidenceStatusChangedEvent;
+  "knowledgeObjects:batchUpserted": KnowledgeObjectsBatchUpsertedEvent;
+  "question:answered": QuestionAnsweredEvent;
+  "decision:superseded": DecisionSupersededEvent;
+  "assumption:confidenceUpdated": AssumptionConfidenceUpdatedEvent;
+  "assumption:statusChanged": AssumptionStatusChangedEvent;
+  "constraint:violated": ConstraintViolatedEvent;
+  "conflict:detected": ConflictDetectedEvent;
+  "conflict:resolved": ConflictResolvedEvent;
+  "tags:reevaluated": TagsReevaluatedEvent;
 }
 
 /**
@@ -292,165 +732,1149 @@ export type HookListener<T extends HookEvent = HookEvent> = (event: T) => void;
  */
 export type Unsubscribe = () => void;
 
-/** ---------- Primitives ---------- */
+/** ---------- Custom Kind Registry ---------- */
 
-const ISODateString = types.string;
+/**
+ * Scoring helpers handed to custom kind scorers so they can reuse the built-in scales.
+ */
+export interface KindScoringHelpers {
+  /** The selection policy of the lane or window being scored */
+  policy: {
+    wSeverity: number;
+    wConfidence: number;
+    wPriority: number;
+    wRecency: number;
+  };
+  /** low=1, medium=2, high=3, critical=4 */
+  severityScore: (s: "low" | "medium" | "high" | "critical") => number;
+  /** low=1, medium=2, high=3; numeric 0..1 maps to 1..3 */
+  confidenceScore: (c: "low" | "medium" | "high" | number) => number;
+  /** p0=4, p1=3, p2=2, p3=1 */
+  priorityScore: (p: "p0" | "p1" | "p2" | "p3") => number;
+  /** 1 / (1 + ageHours) */
+  recencyScore: (iso?: string) => number;
+}
 
-const Severity = types.enumeration("Severity", ["low", "medium", "high", "critical"]);
-const ConfidenceLabel = types.enumeration("ConfidenceLabel", ["low", "medium", "high"]);
-const ConfidenceNumeric = types.refinement(
-  "ConfidenceNumeric",
-  types.number,
-  (val) => val >= 0 && val <= 1,
-);
-const Confidence = types.union(
-  {
-    dispatcher: (snapshot) => {
-      if (typeof snapshot === "number") return ConfidenceNumeric;
-      return ConfidenceLabel;
-    },
-  },
-  ConfidenceLabel,
-  ConfidenceNumeric,
-);
-const Status = types.enumeration("Status", ["active", "paused", "done", "archived"]);
-const Priority = types.enumeration("Priority", ["p0", "p1", "p2", "p3"]);
+/**
+ * Declaration of a consumer-defined knowledge object kind.
+ *
+ * Items of a custom kind are validated and defaulted by `model`, stored as snapshots under
+ * `ctx.customObjects`, and take part in lanes, scoring, synthesis, payloads and hooks like
+ * the built-in kinds. The functions below receive the stored item snapshot.
+ *
+ * @example
+ * ```typescript
+ * registerKnowledgeObjectKind({
+ *     kind: "risk",
+ *     model: types.model("Risk", {
+ *         id: types.identifier,
+ *         title: types.string,
+ *         severity: types.optional(types.enumeration(["low", "medium", "high", "critical"]), "low"),
+ *         tags: types.optional(types.array(types.model({ key: types.string, value: types.maybe(types.string) })), []),
+ *     }),
+ *     sectionLabel: "Risks",
+ *     summarize: (risk) => risk.title,
+ * });
+ * ```
+ */
+export interface KnowledgeKindDefinition<M extends IAnyModelType = IAnyModelType> {
+  /** Kind identifier used in refs, lanes and events (must not be a built-in kind) */
+  kind: string;
+  /** MST model for items of this kind; must declare an `id` identifier */
+  model: M;
+  /** Heading for this kind's section in working memory (e.g. "Risks") */
+  sectionLabel: string;
+  /** One-line text for working memory and payloads */
+  summarize: (item: SnapshotOut<M>) => string | undefined;
+  /**
+   * Unpinned selection score. Defaults to the built-in formula over whichever of
+   * `severity`, `confidence`, `priority` and `updatedAt`/`createdAt` the item has.
+   */
+  score?: (item: SnapshotOut<M>, helpers: KindScoringHelpers) => number;
+  /** Whether the item is eligible for selection. Defaults to `status` being absent or "active". */
+  isActive?: (item: SnapshotOut<M>) => boolean;
+}
 
-const Tag = types.model("Tag", {
-  key: types.string,
-  value: types.maybe(types.string),
-});
+const BUILT_IN_KINDS: readonly BuiltInKnowledgeObjectKind[] = [
+  "goal",
+  "constraint",
+  "assumption",
+  "evidence",
+  "question",
+  "decision",
+];
 
-const Provenance = types.model("Provenance", {
-  source: types.enumeration("Source", ["user", "system", "tool", "doc", "web", "inference"]),
-  ref: types.maybe(types.string),
-  createdAt: types.optional(ISODateString, () => new Date().toISOString()),
-});
+const knowledgeKindRegistry = new Map<string, KnowledgeKindDefinition>();
 
-/** ---------- Knowledge Objects ---------- */
+const isBuiltInKind = (kind: string): kind is BuiltInKnowledgeObjectKind =>
+  (BUILT_IN_KINDS as readonly string[]).includes(kind);
 
-const Assumption = types
-  .model("Assumption", {
-    id: types.identifier,
-    statement: types.string,
-    confidence: types.optional(Confidence, "medium"),
-    tags: types.optional(types.array(Tag), []),
-    provenance: types.optional(Provenance, () => ({ source: "inference" })),
-    status: types.optional(Status, "active"),
-    createdAt: types.optional(ISODateString, () => new Date().toISOString()),
-    updatedAt: types.optional(ISODateString, () => new Date().toISOString()),
-  })
-  .actions((self) => ({
-    setStatus(status: Instance<typeof Status>) {
-      self.status = status;
-      self.updatedAt = new Date().toISOString();
-    },
-    setConfidence(c: Instance<typeof Confidence>) {
-      self.confidence = c;
-      self.updatedAt = new Date().toISOString();
-    },
-    updateStatement(s: string) {
-      self.statement = s;
-      self.updatedAt = new Date().toISOString();
-    },
-  }));
+/**
+ * Register a custom knowledge object kind.
+ * Register kinds before creating or hydrating contexts that reference them:
+ * refs to unknown kinds fail snapshot validation.
+ *
+ * @throws Error if the kind is built-in or already registered
+ */
+export function registerKnowledgeObjectKind<M extends IAnyModelType>(
+  definition: KnowledgeKindDefinition<M>,
+): void {
+  if (isBuiltInKind(definition.kind)) {
+    throw new Error(`Cannot register built-in knowledge object kind "${definition.kind}"`);
+  }
+  if (knowledgeKindRegistry.has(definition.kind)) {
+    throw new Error(`Knowledge object kind "${definition.kind}" is already registered`);
+  }
+  knowledgeKindRegistry.set(definition.kind, definition as unknown as KnowledgeKindDefinition);
+}
 
-const Evidence = types
-  .model("Evidence", {
-    id: types.identifier,
-    summary: types.string,
-    detail: types.maybe(types.string),
-    severity: types.optional(Severity, "low"),
-    confidence: types.optional(Confidence, "medium"),
-    tags: types.optional(types.array(Tag), []),
-    provenance: types.optional(Provenance, () => ({ source: "user" })),
-    createdAt: types.optional(ISODateString, () => new Date().toISOString()),
-  })
-  .views((self) => ({
-    get weight() {
-      const sev = { low: 1, medium: 2, high: 3, critical: 4 }[self.severity];
-      const conf =
-        typeof self.confidence === "number"
-          ? 0.6 + self.confidence * 0.7 // 0->0.6, 0.5->0.95, 1->1.3
-          : { low: 0.6, medium: 1.0, high: 1.3 }[self.confidence];
-      return sev * conf;
-    },
-  }));
+/**
+ * Remove a custom kind from the registry. Existing contexts keep their stored items,
+ * but refs to the kind no longer validate.
+ */
+export function unregisterKnowledgeObjectKind(kind: string): boolean {
+  return knowledgeKindRegistry.delete(kind);
+}
 
-const Constraint = types
-  .model("Constraint", {
-    id: types.identifier,
-    statement: types.string,
-    priority: types.optional(Priority, "p1"),
-    tags: types.optional(types.array(Tag), []),
-    provenance: types.optional(Provenance, () => ({ source: "user" })),
-    status: types.optional(Status, "active"),
-    createdAt: types.optional(ISODateString, () => new Date().toISOString()),
-  })
-  .actions((self) => ({
-    setStatus(status: Instance<typeof Status>) {
-      self.status = status;
-    },
-  }));
+/** Look up a registered custom kind. Returns undefined for built-ins and unknown kinds. */
+export function getKnowledgeObjectKindDefinition(
+  kind: string,
+): KnowledgeKindDefinition | undefined {
+  return knowledgeKindRegistry.get(kind);
+}
 
-const Goal = types
-  .model("Goal", {
-    id: types.identifier,
-    title: types.string,
-    description: types.maybe(types.string),
-    priority: types.optional(Priority, "p1"),
-    status: types.optional(Status, "active"),
+/** All kinds currently usable in refs: the built-ins followed by registered kinds. */
+export function listKnowledgeObjectKinds(): KnowledgeObjectKind[] {
+  return [...BUILT_IN_KINDS, ...knowledgeKindRegistry.keys()];
+}
+
+/** ---------- Assumption Update Rules ---------- */
+
+/**
+ * One piece of active evidence attached to an assumption, as seen by an update rule.
+ */
+export interface AssumptionEvidence {
+  /** Evidence ID */
+  id: string;
+  /** "confirms" for `supports` links, "refutes" for `contradicts` links */
+  direction: "confirms" | "refutes";
+  /** The evidence's `weight` (severity × confidence) */
+  weight: number;
+}
+
+/**
+ * Computes an assumption's numeric confidence (0..1) from its prior confidence and the
+ * active evidence attached to it. Must return the prior unchanged for an empty evidence list.
+ */
+export type AssumptionUpdateRule = (prior: number, evidence: AssumptionEvidence[]) => number;
+
+/** Log-odds shift per unit of evidence weight used by the built-in "logOdds" rule */
+const LOG_ODDS_PER_WEIGHT = 0.5;
+
+/**
+ * Built-in rule: each confirming item adds `weight * 0.5` to the prior's log-odds and each
+ * refuting item subtracts it. A medium-confidence critical finding alone moves 0.5 to ~0.88.
+ * Priors of 0 and 1 are clamped to 0.01 / 0.99 so evidence can move them, but the result never
+ * moves against the net evidence (confirming evidence never lowers a prior of 1).
+ */
+const logOddsRule: AssumptionUpdateRule = (prior, evidence) => {
+  const p = Math.min(0.99, Math.max(0.01, prior));
+  let shift = 0;
+  for (const e of evidence) {
+    shift += (e.direction === "confirms" ? 1 : -1) * e.weight * LOG_ODDS_PER_WEIGHT;
+  }
+  if (shift === 0) return prior;
+  const updated = 1 / (1 + Math.exp(-(Math.log(p / (1 - p)) + shift)));
+  return shift > 0 ? Math.max(prior, updated) : Math.min(prior, updated);
+};
+
+const assumptionUpdateRules = new Map<string, AssumptionUpdateRule>([["logOdds", logOddsRule]]);
+
+/**
+ * Register a named assumption update rule, selectable via `setAssumptionPolicy({ rule })`.
+ *
+ * @throws Error if the name is already registered (including the built-in "logOdds")
+ */
+export function registerAssumptionUpdateRule(name: string, rule: AssumptionUpdateRule): void {
+  if (assumptionUpdateRules.has(name)) {
+    throw new Error(`Assumption update rule "${name}" is already registered`);
+  }
+  assumptionUpdateRules.set(name, rule);
+}
+
+/** Remove a registered update rule. The built-in "logOdds" rule cannot be removed. */
+export function unregisterAssumptionUpdateRule(name: string): boolean {
+  if (name === "logOdds") return false;
+  return assumptionUpdateRules.delete(name);
+}
+
+/** ---------- Constraint Checks ---------- */
+
+/**
+ * A machine-checkable constraint predicate. Receives the proposed decision snapshot and the
+ * predicate's `params`; returns a violation message, or undefined if the decision conforms.
+ */
+export type ConstraintCheck = (
+  decision: SnapshotIn<typeof Decision>,
+  params: Record<string, unknown>,
+) => string | undefined;
+
+/** Read a dot-separated path (e.g. "attributes.positionSize") from a plain object */
+const readPath = (obj: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (v, key) =>
+        v != null && typeof v === "object" ? (v as Record<string, unknown>)[key] : undefined,
+      obj,
+    );
+
+const hasTag = (decision: SnapshotIn<typeof Decision>, params: Record<string, unknown>) =>
+  (decision.tags ?? []).some(
+    (t) => t.key === params.key && (params.value == null || t.value === params.value),
+  );
+
+const tagLabel = (params: Record<string, unknown>) =>
+  params.value == null ? String(params.key) : `${params.key}=${params.value}`;
+
+/**
+ * Built-in checks:
+ * - `maxValue` `{ field, max }` / `minValue` `{ field, min }`: numeric field bounds; missing fields pass
+ * - `requireTag` / `forbidTag` `{ key, value? }`: tag presence on the decision
+ */
+const constraintChecks = new Map<string, ConstraintCheck>([
+  [
+    "maxValue",
+    (d, { field, max }) => {
+      const v = readPath(d, String(field));
+      return typeof v === "number" && v > Number(max)
+        ? `${field} ${v} exceeds max ${max}`
+        : undefined;
+    },
+  ],
+  [
+    "minValue",
+    (d, { field, min }) => {
+      const v = readPath(d, String(field));
+      return typeof v === "number" && v < Number(min)
+        ? `${field} ${v} is below min ${min}`
+        : undefined;
+    },
+  ],
+  [
+    "requireTag",
+    (d, params) => (hasTag(d, params) ? undefined : `missing tag ${tagLabel(params)}`),
+  ],
+  [
+    "forbidTag",
+    (d, params) => (hasTag(d, params) ? `forbidden tag ${tagLabel(params)}` : undefined),
+  ],
+]);
+const BUILT_IN_CONSTRAINT_CHECKS = new Set(constraintChecks.keys());
+
+/**
+ * Register a named constraint check, usable in `Constraint.predicates`.
+ * Register checks before creating or hydrating contexts whose constraints use them.
+ *
+ * @throws Error if the name is already registered (including built-in checks)
+ */
+export function registerConstraintCheck(name: string, check: ConstraintCheck): void {
+  if (constraintChecks.has(name)) {
+    throw new Error(`Constraint check "${name}" is already registered`);
+  }
+  constraintChecks.set(name, check);
+}
+
+/** Remove a registered constraint check. Built-in checks cannot be removed. */
+export function unregisterConstraintCheck(name: string): boolean {
+  if (BUILT_IN_CONSTRAINT_CHECKS.has(name)) return false;
+  return constraintChecks.delete(name);
+}
+
+/** ---------- Text Similarity ---------- */
+
+/** Character k-grams of lowercased text with punctuation and extra whitespace removed */
+const shingles = (text: string, k: number): Set<string> => {
+  const norm = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  const out = new Set<string>();
+  if (norm.length <= k) {
+    if (norm) out.add(norm);
+    return out;
+  }
+  for (let i = 0; i + k <= norm.length; i++) out.add(norm.slice(i, i + k));
+  return out;
+};
+
+/** Jaccard similarity (0..1) of the texts' k-shingle sets. Local and deterministic. */
+const shingleSimilarity = (a: string, b: string, k = 3): number => {
+  const sa = shingles(a, k);
+  const sb = shingles(b, k);
+  if (!sa.size && !sb.size) return 1;
+  let shared = 0;
+  for (const sh of sa) if (sb.has(sh)) shared++;
+  return shared / (sa.size + sb.size - shared);
+};
+
+/** ---------- Contradiction Detectors ---------- */
+
+/**
+ * An evidence item or assumption as seen by a contradiction detector.
+ */
+export interface ContradictionCandidate {
+  kind: "evidence" | "assumption";
+  id: string;
+  /** Evidence summary or assumption statement */
+  text: string;
+  tags: { key: string; value?: string | null }[];
+}
+
+/**
+ * Decides whether two items disagree. Returns a short reason if they do, undefined otherwise.
+ * Called once per unordered pair.
+ */
+export type ContradictionDetector = (
+  a: ContradictionCandidate,
+  b: ContradictionCandidate,
+) => string | undefined;
+
+const POSITIVE_WORDS = new Set([
+  "recovered",
+  "resolved",
+  "restored",
+  "fixed",
+  "normal",
+  "stable",
+  "healthy",
+  "improved",
+  "improving",
+  "passing",
+  "up",
+]);
+const NEGATIVE_WORDS = new Set([
+  "degraded",
+  "still",
+  "failing",
+  "failed",
+  "broken",
+  "worse",
+  "worsening",
+  "unstable",
+  "elevated",
+  "down",
+  "outage",
+  "not",
+]);
+
+/** +1 / -1 by which polarity keywords dominate the text, 0 if neither or tied */
+const textPolarity = (text: string) => {
+  let score = 0;
+  for (const word of text.toLowerCase().split(/[^\p{L}]+/u)) {
+    if (POSITIVE_WORDS.has(word)) score++;
+    else if (NEGATIVE_WORDS.has(word)) score--;
+  }
+  return Math.sign(score);
+};
+
+/**
+ * Built-in "polarity" detector: both items carry the same `subject` tag and their texts
+ * lean opposite ways ("latency recovered" vs "latency still degraded").
+ */
+const polarityDetector: ContradictionDetector = (a, b) => {
+  const subjects = a.tags.filter((t) => t.key === "subject" && t.value != null).map((t) => t.value);
+  const subject = b.tags.find((t) => t.key === "subject" && subjects.includes(t.value))?.value;
+  if (!subject) return undefined;
+  const pa = textPolarity(a.text);
+  const pb = textPolarity(b.text);
+  return pa && pb && pa !== pb ? `opposite claims about ${subject}` : undefined;
+};
+
+const contradictionDetectors = new Map<string, ContradictionDetector>([
+  ["polarity", polarityDetector],
+]);
+
+/**
+ * Register a named contradiction detector, selectable via
+ * `setContradictionPolicy({ detectors: [...] })`.
+ *
+ * @throws Error if the name is already registered (including the built-in "polarity")
+ */
+export function registerContradictionDetector(name: string, detector: ContradictionDetector): void {
+  if (contradictionDetectors.has(name)) {
+    throw new Error(`Contradiction detector "${name}" is already registered`);
+  }
+  contradictionDetectors.set(name, detector);
+}
+
+/** Remove a registered detector. The built-in "polarity" detector cannot be removed. */
+export function unregisterContradictionDetector(name: string): boolean {
+  if (name === "polarity") return false;
+  return contradictionDetectors.delete(name);
+}
+
+/** ---------- Scorers ---------- */
+
+/**
+ * What a lane scorer sees for one unpinned candidate.
+ */
+export interface ScorerInput {
+  kind: KnowledgeObjectKind;
+  id: string;
+  /** Snapshot of the stored item */
+  item: Record<string, unknown>;
+  /** Score so far: the default formula (with trust), then each earlier scorer in the policy */
+  score: number;
+  /** Similarity to the selection query (0..1); 0 when selecting without a query */
+  queryRelevance: number;
+  /** The `params` given for this scorer in the policy */
+  params: Record<string, unknown>;
+  helpers: KindScoringHelpers;
+}
+
+/**
+ * A named scoring function a lane can reference in `SelectionPolicy.scorers`.
+ * Returns the item's new score; return `input.score` to leave it unchanged.
+ */
+export type ItemScorer = (input: ScorerInput) => number;
+
+/**
+ * Built-in "tagBoost" scorer: items carrying tag `key` (with `value`, if given) get
+ * `score * (multiply ?? 1) + (add ?? 0)`.
+ */
+const tagBoostScorer: ItemScorer = ({ item, score, params }) => {
+  const tags = (item.tags ?? []) as { key: string; value?: string }[];
+  const hit = tags.some(
+    (t) => t.key === params.key && (params.value == null || t.value === params.value),
+  );
+  if (!hit) return score;
+  return score * Number(params.multiply ?? 1) + Number(params.add ?? 0);
+};
+
+const scorerRegistry = new Map<string, ItemScorer>([["tagBoost", tagBoostScorer]]);
+
+/**
+ * Register a named scorer. Register scorers before creating or hydrating contexts whose
+ * policies reference them: unknown scorer names fail snapshot validation.
+ *
+ * @throws Error if the name is already registered (including the built-in "tagBoost")
+ */
+export function registerScorer(name: string, scorer: ItemScorer): void {
+  if (scorerRegistry.has(name)) {
+    throw new Error(`Scorer "${name}" is already registered`);
+  }
+  scorerRegistry.set(name, scorer);
+}
+
+/** Remove a registered scorer. The built-in "tagBoost" scorer cannot be removed. */
+export function unregisterScorer(name: string): boolean {
+  if (name === "tagBoost") return false;
+  return scorerRegistry.delete(name);
+}
+
+/** ---------- Embedders ---------- */
+
+/**
+ * Turns texts into vectors for query relevance. Receives the query and all candidate texts
+ * of a lane in one call (so corpus statistics like IDF can be computed), query first.
+ * Vectors are compared by cosine similarity. Must be synchronous.
+ */
+export interface Embedder {
+  embed: (texts: string[]) => number[][];
+}
+
+const HASHING_DIMENSIONS = 1024;
+
+const STOP_WORDS = new Set(
+  "a an and are as at be by for from has have in is it of on or that the this to was were will with we our do does should".split(
+    " ",
+  ),
+);
+
+const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+
+/** 32-bit FNV-1a */
+const fnv1a = (s: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Built-in "hashingTfidf" embedder: TF-IDF over the texts of one call, with tokens hashed
+ * into 1024 dimensions and vectors L2-normalized. Offline and deterministic.
+ */
+const hashingTfidfEmbedder: Embedder = {
+  embed(texts) {
+    const docs = texts.map(tokenize);
+    const df = new Map<string, number>();
+    for (const doc of docs) for (const t of new Set(doc)) df.set(t, (df.get(t) ?? 0) + 1);
+
+    return docs.map((doc) => {
+      const v = new Array<number>(HASHING_DIMENSIONS).fill(0);
+      const tf = new Map<string, number>();
+      for (const t of doc) tf.set(t, (tf.get(t) ?? 0) + 1);
+      for (const [t, n] of tf) {
+        const idf = Math.log((docs.length + 1) / ((df.get(t) ?? 0) + 1)) + 1;
+        v[fnv1a(t) % HASHING_DIMENSIONS]! += n * idf;
+      }
+      const norm = Math.hypot(...v) || 1;
+      return v.map((x) => x / norm);
+    });
+  },
+};
+
+const embedderRegistry = new Map<string, Embedder>([["hashingTfidf", hashingTfidfEmbedder]]);
+
+/**
+ * Register a named embedder, selectable per lane via `SelectionPolicy.embedder`.
+ * Register embedders before creating or hydrating contexts whose policies reference them.
+ *
+ * @throws Error if the name is already registered (including the built-in "hashingTfidf")
+ */
+export function registerEmbedder(name: string, embedder: Embedder): void {
+  if (embedderRegistry.has(name)) {
+    throw new Error(`Embedder "${name}" is already registered`);
+  }
+  embedderRegistry.set(name, embedder);
+}
+
+/** Remove a registered embedder. The built-in "hashingTfidf" embedder cannot be removed. */
+export function unregisterEmbedder(name: string): boolean {
+  if (name === "hashingTfidf") return false;
+  return embedderRegistry.delete(name);
+}
+
+/** Cosine similarity of two vectors, clamped to 0..1 */
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i]! * b[i]!;
+    na += a[i]! * a[i]!;
+    nb += b[i]! * b[i]!;
+  }
+  return na && nb ? Math.max(0, dot / Math.sqrt(na * nb)) : 0;
+};
+
+/** ---------- Item Similarity ---------- */
+
+/**
+ * An item as seen by a similarity function during diversity re-ranking.
+ */
+export interface SimilarityItem {
+  kind: KnowledgeObjectKind;
+  id: string;
+  /** Title / statement / summary / question of the item */
+  text: string;
+  tags: { key: string; value?: string }[];
+}
+
+/**
+ * How alike two items are, from 0 (unrelated) to 1 (same content). Referenced by name in
+ * `SelectionPolicy.similarity`.
+ */
+export type ItemSimilarity = (a: SimilarityItem, b: SimilarityItem) => number;
+
+/** Built-in "shingle" similarity: Jaccard similarity of character 3-grams of the item texts */
+const shingleItemSimilarity: ItemSimilarity = (a, b) => shingleSimilarity(a.text, b.text);
+
+const similarityRegistry = new Map<string, ItemSimilarity>([["shingle", shingleItemSimilarity]]);
+
+/**
+ * Register a named similarity function for diversity re-ranking. Register it before creating
+ * or hydrating contexts whose policies reference it.
+ *
+ * @throws Error if the name is already registered (including the built-in "shingle")
+ */
+export function registerSimilarity(name: string, similarity: ItemSimilarity): void {
+  if (similarityRegistry.has(name)) {
+    throw new Error(`Similarity "${name}" is already registered`);
+  }
+  similarityRegistry.set(name, similarity);
+}
+
+/** Remove a registered similarity function. The built-in "shingle" cannot be removed. */
+export function unregisterSimilarity(name: string): boolean {
+  if (name === "shingle") return false;
+  return similarityRegistry.delete(name);
+}
+
+/** ---------- Primitives ---------- */
+
+const ISODateString = types.string;
+
+const Severity = types.enumeration("Severity", ["low", "medium", "high", "critical"]);
+const ConfidenceLabel = types.enumeration("ConfidenceLabel", ["low", "medium", "high"]);
+const ConfidenceNumeric = types.refinement(
+  "ConfidenceNumeric",
+  types.number,
+  (val) => val >= 0 && val <= 1,
+  () => "must be a number between 0 and 1",
+);
+const Confidence = types.union(
+  {
+    dispatcher: (snapshot) => {
+      if (typeof snapshot === "number") return ConfidenceNumeric;
+      return ConfidenceLabel;
+    },
+  },
+  ConfidenceLabel,
+  ConfidenceNumeric,
+);
+/**
+ * Numeric confidences that score the same as the labels (1 + 2c = 1 / 2 / 3). Decay and
+ * assumption priors work on this scale so neither can move a score against its cause.
+ */
+const CONFIDENCE_LABEL_VALUE = { low: 0, medium: 0.5, high: 1 } as const;
+const SEVERITY_LEVELS = ["low", "medium", "high", "critical"] as const;
+
+const Status = types.enumeration("Status", ["active", "paused", "done", "archived"]);
+const DecisionStatusEnum = types.enumeration<DecisionStatus>("DecisionStatus", [
+  "active",
+  "paused",
+  "done",
+  "archived",
+  "superseded",
+]);
+const AssumptionStatusEnum = types.enumeration<AssumptionStatus>("AssumptionStatus", [
+  "active",
+  "paused",
+  "done",
+  "archived",
+  "validated",
+  "invalidated",
+]);
+const EvidenceStatusEnum = types.enumeration<EvidenceStatus>("EvidenceStatus", [
+  "active",
+  "retracted",
+  "superseded",
+  "archived",
+]);
+const Priority = types.enumeration("Priority", ["p0", "p1", "p2", "p3"]);
+
+const Tag = types.model("Tag", {
+  key: types.string,
+  value: types.maybe(types.string),
+  /** ID of the tagging rule that assigned this tag; unset for tags set by the caller */
+  rule: types.maybe(types.string),
+});
+
+/** ---------- Tag Filters ---------- */
+
+/**
+ * A test on an item's tags: some tag with `key` satisfies every condition given. With no
+ * conditions it tests key presence. Numeric comparisons parse the tag value as a number.
+ */
+export interface TagPredicate {
+  key: string;
+  equals?: string;
+  prefix?: string;
+  /** Regular expression the value must match */
+  regex?: string;
+  flags?: string;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/**
+ * A serializable boolean expression over an item's tags.
+ * @example `{ all: [{ key: "lane", equals: "task" }, { key: "urgency", equals: "immediate" }] }`
+ */
+export type TagFilterExpr =
+  { all: TagFilterExpr[] } | { any: TagFilterExpr[] } | { not: TagFilterExpr } | TagPredicate;
+
+const TAG_PREDICATE_FIELDS = new Set([
+  "key",
+  "equals",
+  "prefix",
+  "regex",
+  "flags",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+]);
+
+/** Why `expr` is not a valid tag filter, or undefined if it is */
+const tagFilterError = (expr: unknown, path = "filter"): string | undefined => {
+  if (!expr || typeof expr !== "object" || Array.isArray(expr)) {
+    return `${path} must be an object`;
+  }
+  const e = expr as Record<string, unknown>;
+  for (const op of ["all", "any"] as const) {
+    if (!(op in e)) continue;
+    if (Object.keys(e).length !== 1) return `${path}.${op} cannot be combined with other fields`;
+    if (!Array.isArray(e[op])) return `${path}.${op} must be an array`;
+    for (const [i, sub] of (e[op] as unknown[]).entries()) {
+      const err = tagFilterError(sub, `${path}.${op}[${i}]`);
+      if (err) return err;
+    }
+    return undefined;
+  }
+  if ("not" in e) {
+    if (Object.keys(e).length !== 1) return `${path}.not cannot be combined with other fields`;
+    return tagFilterError(e.not, `${path}.not`);
+  }
+  if (typeof e.key !== "string") return `${path}.key must be a string`;
+  for (const field of Object.keys(e)) {
+    if (!TAG_PREDICATE_FIELDS.has(field)) return `${path} has unknown field "${field}"`;
+  }
+  for (const field of ["equals", "prefix", "regex", "flags"]) {
+    if (field in e && typeof e[field] !== "string") return `${path}.${field} must be a string`;
+  }
+  for (const field of ["gt", "gte", "lt", "lte"]) {
+    if (field in e && typeof e[field] !== "number") return `${path}.${field} must be a number`;
+  }
+  if (e.regex !== undefined) {
+    try {
+      new RegExp(e.regex as string, e.flags as string | undefined);
+    } catch {
+      return `${path}.regex is not a valid regular expression`;
+    }
+  }
+  return undefined;
+};
+
+/** Compiled `regex` of each predicate; filters are frozen, so predicates are stable keys */
+const tagPredicateRegexes = new WeakMap<TagPredicate, RegExp>();
+
+const predicateRegex = (expr: TagPredicate & { regex: string }) => {
+  let re = tagPredicateRegexes.get(expr);
+  if (!re) {
+    // stateless matching: a reused "g" / "y" regex would carry lastIndex between items
+    re = new RegExp(expr.regex, expr.flags?.replace(/[gy]/g, ""));
+    tagPredicateRegexes.set(expr, re);
+  }
+  return re;
+};
+
+/** Whether `tags` satisfy the (valid) filter expression */
+const matchesTagFilter = (
+  tags: { key: string; value?: string | null }[],
+  expr: TagFilterExpr,
+): boolean => {
+  if ("all" in expr) return expr.all.every((sub) => matchesTagFilter(tags, sub));
+  if ("any" in expr) return expr.any.some((sub) => matchesTagFilter(tags, sub));
+  if ("not" in expr) return !matchesTagFilter(tags, expr.not);
+  return tags.some((t) => {
+    if (t.key !== expr.key) return false;
+    const value = t.value ?? undefined;
+    if (expr.equals !== undefined && value !== expr.equals) return false;
+    if (expr.prefix !== undefined && !value?.startsWith(expr.prefix)) return false;
+    if (
+      expr.regex !== undefined &&
+      !predicateRegex(expr as TagPredicate & { regex: string }).test(value ?? "")
+    ) {
+      return false;
+    }
+    const bounds = [expr.gt, expr.gte, expr.lt, expr.lte];
+    if (bounds.every((b) => b === undefined)) return true;
+    const n = value === undefined || value.trim() === "" ? NaN : Number(value);
+    if (!Number.isFinite(n)) return false;
+    return (
+      (expr.gt === undefined || n > expr.gt) &&
+      (expr.gte === undefined || n >= expr.gte) &&
+      (expr.lt === undefined || n < expr.lt) &&
+      (expr.lte === undefined || n <= expr.lte)
+    );
+  });
+};
+
+const TagFilter = types.refinement(
+  "TagFilter",
+  types.frozen<TagFilterExpr>(),
+  (expr) => !tagFilterError(expr),
+  (expr) => tagFilterError(expr) ?? "invalid tag filter",
+);
+
+const Provenance = types.model("Provenance", {
+  source: types.enumeration("Source", ["user", "system", "tool", "doc", "web", "inference"]),
+  ref: types.maybe(types.string),
+  createdAt: types.optional(ISODateString, () => new Date().toISOString()),
+});
+
+/** ---------- Knowledge Objects ---------- */
+
+const Assumption = types
+  .model("Assumption", {
+    id: types.identifier,
+    statement: types.string,
+    confidence: types.optional(Confidence, "medium"),
+    /** Confidence before attached evidence was applied; captured on the first reevaluation */
+    priorConfidence: types.maybe(ConfidenceNumeric),
     tags: types.optional(types.array(Tag), []),
+    /** Sensitivity labels (e.g. "pii", "phi") matched by label-based redaction rules */
+    sensitivity: types.optional(types.array(types.string), []),
+    provenance: types.optional(Provenance, () => ({ source: "inference" })),
+    status: types.optional(AssumptionStatusEnum, "active"),
     createdAt: types.optional(ISODateString, () => new Date().toISOString()),
+    updatedAt: types.optional(ISODateString, () => new Date().toISOString()),
   })
   .actions((self) => ({
-    setStatus(status: Instance<typeof Status>) {
+    setStatus(status: AssumptionStatus) {
       self.status = status;
+      self.updatedAt = new Date().toISOString();
+    },
+    setConfidence(c: Instance<typeof Confidence>) {
+      self.confidence = c;
+      self.updatedAt = new Date().toISOString();
+    },
+    setPriorConfidence(p: number) {
+      self.priorConfidence = p;
+    },
+    updateStatement(s: string) {
+      self.statement = s;
+      self.updatedAt = new Date().toISOString();
     },
   }));
 
-const OpenQuestion = types
-  .model("OpenQuestion", {
+const Evidence = types
+  .model("Evidence", {
     id: types.identifier,
-    question: types.string,
-    priority: types.optional(Priority, "p2"),
-    status: types.optional(Status, "active"),
+    summary: types.string,
+    detail: types.maybe(types.string),
+    severity: types.optional(Severity, "low"),
+    confidence: types.optional(Confidence, "medium"),
     tags: types.optional(types.array(Tag), []),
-    provenance: types.optional(Provenance, () => ({ source: "system" })),
+    /** Sensitivity labels (e.g. "pii", "phi") matched by label-based redaction rules */
+    sensitivity: types.optional(types.array(types.string), []),
+    provenance: types.optional(Provenance, () => ({ source: "user" })),
+    status: types.optional(EvidenceStatusEnum, "active"),
+    /** Why the evidence left the "active" status (e.g. "sensor fault") */
+    statusReason: types.maybe(types.string),
+    /** When the status last changed */
+    statusChangedAt: types.maybe(ISODateString),
+    /** How many times this finding was ingested, counting merged near-duplicates */
+    occurrences: types.optional(types.number, 1),
+    /** When a near-duplicate was last merged in; used for recency instead of `createdAt` */
+    lastSeenAt: types.maybe(ISODateString),
     createdAt: types.optional(ISODateString, () => new Date().toISOString()),
+    updatedAt: types.optional(ISODateString, () => new Date().toISOString()),
   })
   .actions((self) => ({
-    setStatus(status: Instance<typeof Status>) {
+    setStatus(status: EvidenceStatus, reason?: string) {
       self.status = status;
+      self.statusReason = reason;
+      self.statusChangedAt = new Date().toISOString();
+      self.updatedAt = self.statusChangedAt;
+    },
+    /** Count another sighting of this finding and refresh its recency */
+    recordOccurrence() {
+      self.occurrences += 1;
+      self.lastSeenAt = new Date().toISOString();
+      self.updatedAt = self.lastSeenAt;
+    },
+  }))
+  .views((self) => ({
+    get weight() {
+      const sev = { low: 1, medium: 2, high: 3, critical: 4 }[self.severity];
+      const conf =
+        typeof self.confidence === "number"
+          ? 0.6 + self.confidence * 0.7 // 0->0.6, 0.5->0.95, 1->1.3
+          : { low: 0.6, medium: 1.0, high: 1.3 }[self.confidence];
+      return sev * conf;
     },
   }));
 
-const Decision = types
-  .model("Decision", {
+/**
+ * Machine-checkable rule attached to a constraint, naming a registered check.
+ *
+ * @example
+ * ```typescript
+ * { check: "maxValue", params: { field: "attributes.positionSize", max: 10_000 } }
+ * ```
+ */
+const ConstraintPredicate = types.model("ConstraintPredicate", {
+  check: types.refinement(
+    "ConstraintCheckName",
+    types.string,
+    (name) => constraintChecks.has(name),
+    (name) => `unknown constraint check "${name}"`,
+  ),
+  params: types.optional(types.frozen<Record<string, unknown>>(), {}),
+});
+
+const Constraint = types
+  .model("Constraint", {
     id: types.identifier,
     statement: types.string,
-    rationale: types.maybe(types.string),
-    status: types.optional(Status, "active"),
+    priority: types.optional(Priority, "p1"),
+    /** Hard constraints block non-conforming decisions; soft ones only warn (default: "soft") */
+    strength: types.optional(
+      types.enumeration<"hard" | "soft">("ConstraintStrength", ["hard", "soft"]),
+      "soft",
+    ),
+    /** Checks a decision must pass; see `checkDecision()` */
+    predicates: types.optional(types.array(ConstraintPredicate), []),
     tags: types.optional(types.array(Tag), []),
-    provenance: types.optional(Provenance, () => ({ source: "system" })),
+    /** Sensitivity labels (e.g. "pii", "phi") matched by label-based redaction rules */
+    sensitivity: types.optional(types.array(types.string), []),
+    provenance: types.optional(Provenance, () => ({ source: "user" })),
+    status: types.optional(Status, "active"),
     createdAt: types.optional(ISODateString, () => new Date().toISOString()),
+    updatedAt: types.optional(ISODateString, () => new Date().toISOString()),
   })
   .actions((self) => ({
     setStatus(status: Instance<typeof Status>) {
       self.status = status;
+      self.updatedAt = new Date().toISOString();
     },
   }));
 
-/** ---------- Context Window & Selection ---------- */
+const Percent = types.refinement(
+  "Percent",
+  types.number,
+  (val) => val >= 0 && val <= 100,
+  () => "must be a number between 0 and 100",
+);
 
-const ContextItemKind = types.enumeration("ContextItemKind", [
-  "goal",
-  "constraint",
-  "assumption",
-  "evidence",
-  "question",
-  "decision",
-]);
+/** A checkable completion criterion; progress of a leaf goal can be derived from these */
+const GoalCriterion = types.model("GoalCriterion", {
+  text: types.string,
+  done: types.optional(types.boolean, false),
+});
+
+const Goal = types
+  .model("Goal", {
+    id: types.identifier,
+    title: types.string,
+    description: types.maybe(types.string),
+    priority: types.optional(Priority, "p1"),
+    status: types.optional(Status, "active"),
+    /** ID of the parent goal, making this a sub-goal */
+    parentId: types.maybe(types.string),
+    /** Explicit progress 0..100; takes precedence over `criteria` */
+    progress: types.maybe(Percent),
+    /** Completion criteria; without explicit `progress`, progress is the share that are done */
+    criteria: types.optional(types.array(GoalCriterion), []),
+    tags: types.optional(types.array(Tag), []),
+    /** Sensitivity labels (e.g. "pii", "phi") matched by label-based redaction rules */
+    sensitivity: types.optional(types.array(types.string), []),
+    createdAt: types.optional(ISODateString, () => new Date().toISOString()),
+    updatedAt: types.optional(ISODateString, () => new Date().toISOString()),
+  })
+  .actions((self) => ({
+    setStatus(status: Instance<typeof Status>) {
+      self.status = status;
+      self.updatedAt = new Date().toISOString();
+    },
+    setProgress(progress: number) {
+      self.progress = progress;
+      self.updatedAt = new Date().toISOString();
+    },
+    /** Mark the criterion with this text done (or not). Returns false if there is none. */
+    setCriterionDone(text: string, done = true) {
+      const criterion = self.criteria.find((c) => c.text === text);
+      if (!criterion) return false;
+      criterion.done = done;
+      self.updatedAt = new Date().toISOString();
+      return true;
+    },
+  }))
+  .views((self) => ({
+    /** Progress from this goal alone: explicit progress, else done criteria, else done → 100 */
+    get ownProgress() {
+      if (self.progress !== undefined) return self.progress;
+      if (self.criteria.length) {
+        return (100 * self.criteria.filter((c) => c.done).length) / self.criteria.length;
+      }
+      return self.status === "done" ? 100 : 0;
+    },
+  }));
+
+/**
+ * How a question was resolved: the item that answered it plus a short summary.
+ */
+const QuestionAnswer = types.model("QuestionAnswer", {
+  /** The evidence, decision, … that answers the question */
+  by: types.late(() => RelationEndpoint),
+  /** Short statement of the answer */
+  summary: types.string,
+  answeredAt: types.optional(ISODateString, () => new Date().toISOString()),
+});
+
+const OpenQuestion = types
+  .model("OpenQuestion", {
+    id: types.identifier,
+    question: types.string,
+    priority: types.optional(Priority, "p2"),
+    status: types.optional(Status, "active"),
+    /** Set by `answerQuestion()`; a question with an answer and status "done" is resolved */
+    answer: types.maybe(QuestionAnswer),
+    tags: types.optional(types.array(Tag), []),
+    /** Sensitivity labels (e.g. "pii", "phi") matched by label-based redaction rules */
+    sensitivity: types.optional(types.array(types.string), []),
+    provenance: types.optional(Provenance, () => ({ source: "system" })),
+    createdAt: types.optional(ISODateString, () => new Date().toISOString()),
+    updatedAt: types.optional(ISODateString, () => new Date().toISOString()),
+  })
+  .views((self) => ({
+    get isResolved() {
+      return self.status === "done" && !!self.answer;
+    },
+  }))
+  .actions((self) => ({
+    setStatus(status: Instance<typeof Status>) {
+      self.status = status;
+      self.updatedAt = new Date().toISOString();
+    },
+    setAnswer(answer: SnapshotIn<typeof QuestionAnswer>) {
+      self.answer = QuestionAnswer.create(answer);
+      self.status = "done";
+      self.updatedAt = new Date().toISOString();
+    },
+  }));
+
+const Decision = types
+  .model("Decision", {
+    id: types.identifier,
+    statement: types.string,
+    rationale: types.maybe(types.string),
+    status: types.optional(DecisionStatusEnum, "active"),
+    /** Structured parameters of the decision (e.g. `{ positionSize: 5000 }`), for constraint checks */
+    attributes: types.optional(types.frozen<Record<string, unknown>>(), {}),
+    /**
+     * ID of the decision this one replaces; the replaced decision becomes "superseded".
+     * Kept when a re-upsert omits it (pass `undefined` explicitly to clear it).
+     */
+    supersedes: types.maybe(types.string),
+    /** ID of the decision that replaced this one (set automatically, kept like `supersedes`) */
+    supersededBy: types.maybe(types.string),
+    tags: types.optional(types.array(Tag), []),
+    /** Sensitivity labels (e.g. "pii", "phi") matched by label-based redaction rules */
+    sensitivity: types.optional(types.array(types.string), []),
+    provenance: types.optional(Provenance, () => ({ source: "system" })),
+    createdAt: types.optional(ISODateString, () => new Date().toISOString()),
+    updatedAt: types.optional(ISODateString, () => new Date().toISOString()),
+  })
+  .actions((self) => ({
+    setStatus(status: DecisionStatus) {
+      self.status = status;
+      self.updatedAt = new Date().toISOString();
+    },
+    markSuperseded(byId: string) {
+      self.status = "superseded";
+      self.supersededBy = byId;
+      self.updatedAt = new Date().toISOString();
+    },
+  }));
+
+/** ---------- Validation ---------- */
+
+/**
+ * A single problem found while validating an item, addressed by a slash-separated path.
+ */
+export interface ValidationIssue {
+  /** Path of the offending field, e.g. "severity" or "tags/0/key" ("" for the item itself) */
+  path: string;
+  /** Human-readable description, e.g. `severity: expected ("low" | …), got "huge"` */
+  message: string;
+  /** The rejected value */
+  value?: unknown;
+}
+
+/**
+ * Result of a `tryUpsert*` call. Never throws for bad input.
+ */
+export type TryUpsertResult =
+  | {
+      ok: true;
+      kind: KnowledgeObjectKind;
+      id: string;
+      isNew: boolean;
+      /** Fields rewritten by coercion (only when `coerce` was requested) */
+      coerced: Array<{ path: string; from: unknown; to: unknown }>;
+    }
+  | { ok: false; kind: KnowledgeObjectKind; errors: ValidationIssue[] };
+
+const BUILT_IN_MODELS = {
+  goal: Goal,
+  constraint: Constraint,
+  assumption: Assumption,
+  evidence: Evidence,
+  question: OpenQuestion,
+  decision: Decision,
+} as const;
+
+/** The MST model validating items of `kind`, or undefined for unknown kinds */
+const modelForKind = (kind: KnowledgeObjectKind): IAnyModelType | undefined =>
+  isBuiltInKind(kind) ? BUILT_IN_MODELS[kind] : knowledgeKindRegistry.get(kind)?.model;
+
+// MST's own wording for these is not useful to API clients; describe the expected type instead
+const GENERIC_MST_MESSAGE = /^(Value is not|No type is applicable|Value does not respect)/;
+
+/** Validate a snapshot against a model, one issue per offending path */
+const validateAgainst = (model: IAnyModelType, input: unknown): ValidationIssue[] => {
+  const byPath = new Map<string, ValidationIssue>();
+  for (const err of model.validate(input, [{ path: "", type: model }])) {
+    const path = err.context
+      .map((c) => c.path)
+      .filter(Boolean)
+      .join("/");
+    if (byPath.has(path)) continue;
+    const type = err.context[err.context.length - 1]?.type;
+    const expected =
+      err.message && !GENERIC_MST_MESSAGE.test(err.message)
+        ? err.message
+        : `expected ${type?.describe().replace(/\?$/, "") ?? "a valid value"}`;
+    byPath.set(path, {
+      path,
+      message: `${path || "item"}: ${expected}, got ${JSON.stringify(err.value) ?? "undefined"}`,
+      value: err.value,
+    });
+  }
+  return Array.from(byPath.values());
+};
+
+/**
+ * Best-effort repair of top-level scalar fields: case/whitespace for enumerations
+ * ("High" -> "high") and numeric strings for numbers ("0.8" -> 0.8).
+ */
+const coerceTopLevel = (model: IAnyModelType, input: Record<string, unknown>) => {
+  const output: Record<string, unknown> = { ...input };
+  const coerced: Array<{ path: string; from: unknown; to: unknown }> = [];
+  const properties = (model as unknown as { properties: Record<string, IAnyType> }).properties;
+  for (const [key, value] of Object.entries(input)) {
+    const type = properties[key];
+    if (!type || typeof value !== "string") continue;
+    const trimmed = value.trim();
+    if (type.is(value)) continue;
+    const candidates: unknown[] = [trimmed, trimmed.toLowerCase()];
+    if (trimmed !== "" && !Number.isNaN(Number(trimmed))) candidates.push(Number(trimmed));
+    const fixed = candidates.find((c) => type.is(c));
+    if (fixed === undefined) continue;
+    output[key] = fixed;
+    coerced.push({ path: key, from: value, to: fixed });
+  }
+  return { output, coerced };
+};
+
+/** Fields a patch may change: everything except `id` and `createdAt` */
+type KnowledgeObjectPatch<M extends IAnyModelType> = Partial<
+  Omit<SnapshotIn<M>, "id" | "createdAt">
+>;
+
+/** ---------- Context Window & Selection ---------- */
+
+/** Built-in kinds plus any kind registered via `registerKnowledgeObjectKind()`. */
+const ContextItemKind = types.refinement(
+  "ContextItemKind",
+  types.string,
+  (kind) => isBuiltInKind(kind) || knowledgeKindRegistry.has(kind),
+);
 
 /**
  * Reference to a knowledge object within a context window or selection.
@@ -465,12 +1889,110 @@ const ContextItemRef = types.model("ContextItemRef", {
   score: types.optional(types.number, 0),
   /** Whether this item is explicitly pinned (always included) */
   pinned: types.optional(types.boolean, false),
+  /** Similarity to the selection query (0..1), when selected for a query */
+  queryRelevance: types.maybe(types.number),
 });
 
+/** ---------- Relations ---------- */
+
+const RelationTypeEnum = types.enumeration<RelationType>("RelationType", [
+  "supports",
+  "contradicts",
+  "answers",
+  "supersedes",
+  "derivedFrom",
+  "duplicateOf",
+]);
+
+/**
+ * One side of a relation edge.
+ */
+const RelationEndpoint = types.model("RelationEndpoint", {
+  kind: ContextItemKind,
+  id: types.string,
+});
+
+/**
+ * A typed, directed edge between two knowledge objects (`from` --type--> `to`).
+ * The id is derived from the edge itself, so linking the same pair twice is a no-op.
+ */
+const Relation = types.model("Relation", {
+  /** Deterministic identifier: `type:fromKind:fromId->toKind:toId` */
+  id: types.identifier,
+  type: RelationTypeEnum,
+  from: RelationEndpoint,
+  to: RelationEndpoint,
+  /** Optional free-text explanation of the edge */
+  note: types.maybe(types.string),
+  createdAt: types.optional(ISODateString, () => new Date().toISOString()),
+});
+
+const relationId = (from: ItemRef, type: RelationType, to: ItemRef) =>
+  `${type}:${from.kind}:${from.id}->${to.kind}:${to.id}`;
+
+/**
+ * Two items that disagree, as found by a contradiction detector.
+ * The id is derived from the pair, so each pair is recorded at most once.
+ */
+const Conflict = types.model("Conflict", {
+  /** Deterministic identifier: `kind:id<>kind:id`, endpoints in sorted order */
+  id: types.identifier,
+  a: RelationEndpoint,
+  b: RelationEndpoint,
+  /** Name of the detector that found it */
+  detector: types.string,
+  reason: types.string,
+  status: types.optional(
+    types.enumeration<"open" | "resolved">("ConflictStatus", ["open", "resolved"]),
+    "open",
+  ),
+  /** How the conflict was resolved, if given */
+  resolution: types.maybe(types.string),
+  /**
+   * True when detection (or removal of an item) resolved it; such conflicts re-open if the
+   * pair contradicts again. Manual resolutions via `resolveConflict()` stay resolved.
+   */
+  resolvedAutomatically: types.optional(types.boolean, false),
+  detectedAt: types.optional(ISODateString, () => new Date().toISOString()),
+});
+
+const conflictId = (a: ItemRef, b: ItemRef) =>
+  [`${a.kind}:${a.id}`, `${b.kind}:${b.id}`].sort().join("<>");
+
+/**
+ * Reference to a registered scorer in a selection policy, with its parameters.
+ */
+const ScorerRef = types.model("ScorerRef", {
+  name: types.refinement(
+    "ScorerName",
+    types.string,
+    (name) => scorerRegistry.has(name),
+    (name) => `unknown scorer "${name}"`,
+  ),
+  params: types.optional(types.frozen<Record<string, unknown>>(), {}),
+});
+
+/**
+ * How many items of one kind a selection must / may contain. Pinned items count toward both
+ * bounds; they are kept even past `max`.
+ */
+const KindQuota = types.refinement(
+  "KindQuota",
+  types.model("KindQuota", {
+    min: types.optional(types.number, 0),
+    max: types.maybe(types.number),
+  }),
+  (q) => q.max === undefined || (q.min ?? 0) <= q.max,
+  () => "min must not exceed max",
+);
+
 /**
  * Configuration for how items are scored and selected within a lane or window.
  *
  * Scoring formula: `wSeverity * severity + wConfidence * confidence + wPriority * priority + wRecency * recency`
+ * (plus `wRelevance * similarity` when selecting for a query),
+ * multiplied by the trust of the item's provenance (`refTrust`, else `sourceTrust`, else 1),
+ * then passed through `scorers` in order.
  * Pinned items receive `wPinnedBoost` instead of the computed score.
  *
  * @example
@@ -487,6 +2009,13 @@ const ContextItemRef = types.model("ContextItemRef", {
 const SelectionPolicy = types.model("SelectionPolicy", {
   /** Maximum number of items to include in selection (default: 30) */
   maxItems: types.optional(types.number, 30),
+  /**
+   * Also select by rendered size (default: unset). Unpinned items are chosen to maximize
+   * total score while their working-memory lines fit in this many tokens, still at most
+   * `maxItems`; with `diversity: "mmr"`, each pick must fit what is left. Pinned items are
+   * always kept and count against the budget.
+   */
+  tokenBudget: types.maybe(types.number),
 
   /** Weight multiplier for evidence severity in scoring (default: 1.0) */
   wSeverity: types.optional(types.number, 1.0),
@@ -499,15 +2028,83 @@ const SelectionPolicy = types.model("SelectionPolicy", {
   /** Weight multiplier for recency (exponential decay) in scoring (default: 0.1) */
   wRecency: types.optional(types.number, 0.1),
 
-  /** Which knowledge object types to include in selection (default: all types) */
-  includeKinds: types.optional(types.array(ContextItemKind), [
-    "goal",
-    "constraint",
-    "assumption",
-    "evidence",
-    "question",
-    "decision",
-  ]),
+  /** Also select evidence that is retracted, superseded or archived (default: false) */
+  includeInactiveEvidence: types.optional(types.boolean, false),
+  /** Select answered questions so synthesis can list them as resolved (default: true) */
+  includeResolvedQuestions: types.optional(types.boolean, true),
+
+  /** Which knowledge object types to include in selection (default: all kinds registered at creation) */
+  includeKinds: types.optional(types.array(ContextItemKind), () => listKnowledgeObjectKinds()),
+  /**
+   * Per-kind bounds, e.g. `{ constraint: { min: 2 }, evidence: { max: 8 } }` (default: none).
+   * The best items of a kind below its minimum are reserved before the rest compete, within
+   * `maxItems` and `tokenBudget`; shortfalls are explained in the selection report.
+   */
+  kindQuotas: types.optional(types.map(KindQuota), {}),
+
+  /**
+   * Relation types used to pull in neighbors of selected items (default: none).
+   * Items linked to a selected item by one of these types, in either direction, become
+   * candidates even if they do not pass the lane's tag filter.
+   */
+  expandRelations: types.optional(types.array(RelationTypeEnum), []),
+  /** Score of a related item as a fraction of the score of the item that pulled it in (default: 0.9) */
+  wRelated: types.optional(types.number, 0.9),
+
+  /** Score multiplier per provenance source, e.g. `{ inference: 0.6, web: 0.8 }` (default: 1 for all) */
+  sourceTrust: types.optional(types.frozen<Partial<Record<ProvenanceSource, number>>>(), {}),
+  /** Score multiplier per `provenance.ref` (e.g. a feed or tool name); overrides `sourceTrust` */
+  refTrust: types.optional(types.frozen<Record<string, number>>(), {}),
+
+  /**
+   * Registered scorers applied after the default formula, in order; each receives the
+   * previous score (default: none)
+   */
+  scorers: types.optional(types.array(ScorerRef), []),
+
+  /** Weight of query similarity (0..1) when selecting for a query (default: 3.0) */
+  wRelevance: types.optional(types.number, 3.0),
+  /** Registered embedder used for query relevance (default: "hashingTfidf") */
+  embedder: types.optional(
+    types.refinement(
+      "EmbedderName",
+      types.string,
+      (name) => embedderRegistry.has(name),
+      (name) => `unknown embedder "${name}"`,
+    ),
+    "hashingTfidf",
+  ),
+
+  /**
+   * Re-ranking of unpinned candidates (default: "score"):
+   * - **score**: highest scores win
+   * - **mmr**: maximal marginal relevance; each pick trades score against similarity to
+   *   items already selected, so near-duplicates do not crowd out the rest
+   */
+  diversity: types.optional(
+    types.enumeration<"score" | "mmr">("Diversity", ["score", "mmr"]),
+    "score",
+  ),
+  /** MMR balance: 1 = score only, 0 = novelty only (default: 0.7) */
+  diversityLambda: types.optional(
+    types.refinement(
+      "DiversityLambda",
+      types.number,
+      (val) => val >= 0 && val <= 1,
+      () => "must be a number between 0 and 1",
+    ),
+    0.7,
+  ),
+  /** Registered similarity function used by MMR (default: "shingle") */
+  similarity: types.optional(
+    types.refinement(
+      "SimilarityName",
+      types.string,
+      (name) => similarityRegistry.has(name),
+      (name) => `unknown similarity "${name}"`,
+    ),
+    "shingle",
+  ),
 });
 
 /** ---------- Hook Registry ---------- */
@@ -727,17 +2324,27 @@ const ContextWindow = types
     selected: types.optional(types.array(ContextItemRef), []),
     /** When this window was last refreshed */
     lastRefreshedAt: types.maybe(ISODateString),
+    /** How the last selection was made (see `SelectionReport`) */
+    report: types.optional(types.frozen<SelectionReport>(), { redundant: [] }),
   })
   .actions((self) => ({
     /** Update the selection policy with partial values */
     setPolicy(patch: Partial<SnapshotIn<typeof SelectionPolicy>>) {
       Object.assign(self.policy, patch);
     },
-    /** Replace the selected items and update refresh timestamp */
-    setSelected(items: SnapshotIn<typeof ContextItemRef>[]) {
+    /** Replace the selected items (and selection report) and update refresh timestamp */
+    setSelected(items: SnapshotIn<typeof ContextItemRef>[], report?: SelectionReport) {
       self.selected.replace(items as Instance<typeof ContextItemRef>[]);
+      self.report = report ?? { redundant: [] };
       self.lastRefreshedAt = new Date().toISOString();
     },
+    /** Drop a reference from the selection; returns true if it was selected */
+    removeRef(kind: Instance<typeof ContextItemKind>, id: string) {
+      const idx = self.selected.findIndex((x) => x.kind === kind && x.id === id);
+      if (idx < 0) return false;
+      self.selected.splice(idx, 1);
+      return true;
+    },
   }));
 
 /** ---------- Lanes ---------- */
@@ -786,6 +2393,12 @@ const ContextLane = types
      * @example `[{ key: "lane", value: "legal" }, { key: "domain", value: "compliance" }]`
      */
     includeTagsAny: types.optional(types.array(Tag), []),
+    /**
+     * Tag filter expression for lane membership, ANDed with `includeTagsAny`. Unset means no
+     * extra filtering.
+     * @example `{ all: [{ key: "lane", equals: "task" }, { key: "urgency", equals: "immediate" }] }`
+     */
+    tagFilter: types.maybe(TagFilter),
     /** Explicitly pinned item references for this lane */
     pinned: types.optional(types.array(ContextItemRef), []),
   })
@@ -799,6 +2412,10 @@ const ContextLane = types
     setIncludeTagsAny(tags: SnapshotIn<typeof Tag>[]) {
       self.includeTagsAny.replace(tags as Instance<typeof Tag>[]);
     },
+    /** Set or clear (with undefined) the lane's tag filter expression */
+    setTagFilter(filter: TagFilterExpr | undefined) {
+      self.tagFilter = filter;
+    },
     pin(kind: Instance<typeof ContextItemKind>, id: string) {
       const existing = self.pinned.find((x) => x.kind === kind && x.id === id);
       if (existing) existing.pinned = true;
@@ -808,6 +2425,13 @@ const ContextLane = types
       const existing = self.pinned.find((x) => x.kind === kind && x.id === id);
       if (existing) existing.pinned = false;
     },
+    /** Remove the pin entry entirely (used when the item itself is deleted) */
+    dropPin(kind: Instance<typeof ContextItemKind>, id: string) {
+      const idx = self.pinned.findIndex((x) => x.kind === kind && x.id === id);
+      if (idx < 0) return false;
+      self.pinned.splice(idx, 1);
+      return true;
+    },
     setWindowPolicy(patch: Partial<SnapshotIn<typeof SelectionPolicy>>) {
       self.window.policy && self.window.setPolicy(patch);
     },
@@ -820,8 +2444,12 @@ const ContextLane = types
  * Contains a token-budgeted condensed text representation of active context.
  */
 const WorkingMemory = types.model("WorkingMemory", {
-  /** The synthesized text content */
+  /** The synthesized text content, with redaction rules applied */
   text: types.optional(types.string, ""),
+  /** What redaction rules masked in `text` */
+  redactions: types.optional(types.frozen<RedactionHit[]>(), []),
+  /** The query the selection was made for, if any */
+  query: types.maybe(types.string),
   /** When the working memory was last updated */
   updatedAt: types.maybe(ISODateString),
   /** Reference to the archive entry created during synthesis */
@@ -845,6 +2473,222 @@ const ArchiveEntry = types.model("ArchiveEntry", {
   snapshot: types.frozen(),
 });
 
+/**
+ * One changed top-level field within a revision.
+ */
+const FieldChange = types.model("FieldChange", {
+  field: types.string,
+  /** Value before the change (undefined if the field was absent) */
+  before: types.frozen(),
+  /** Value after the change (undefined if the field was removed) */
+  after: types.frozen(),
+});
+
+/**
+ * One entry in an item's revision log.
+ */
+const Revision = types.model("Revision", {
+  /** Revision number, increasing per item starting at 1 */
+  rev: types.number,
+  /** When the change happened */
+  at: types.optional(ISODateString, () => new Date().toISOString()),
+  /** Who made the change, if known */
+  by: types.maybe(types.string),
+  /** What happened to the item */
+  change: types.enumeration("RevisionChange", ["created", "updated", "removed"]),
+  /** Field-level diff against the previous revision */
+  changes: types.optional(types.array(FieldChange), []),
+  /** Full item snapshot after the change (null once removed) */
+  snapshot: types.frozen(),
+});
+
+/**
+ * Controls per-item revision history. Disabled by default since every change stores a snapshot.
+ */
+const RevisionPolicy = types.model("RevisionPolicy", {
+  /** Record revisions for knowledge object changes (default: false) */
+  enabled: types.optional(types.boolean, false),
+  /** Revisions kept per item; the oldest are dropped first (default: 50) */
+  maxRevisionsPerItem: types.optional(types.number, 50),
+});
+
+/**
+ * Declarative rule that assigns tags (typically `lane` tags) to items on upsert.
+ * Every condition that is set must hold; a rule without conditions matches every item
+ * of its kinds. Conditions only see tags set by the caller, not those assigned by rules.
+ *
+ * @example
+ * ```typescript
+ * ctx.addTaggingRule({
+ *     id: "security",
+ *     keywords: ["cve", "exploit"],
+ *     minSeverity: "high",
+ *     tags: [{ key: "lane", value: "security" }],
+ * });
+ * ```
+ */
+const TaggingRule = types.model("TaggingRule", {
+  id: types.string,
+  /** Tags to assign when the rule fires */
+  tags: types.array(Tag),
+  /** Kinds the rule applies to; empty means every kind */
+  kinds: types.optional(types.array(ContextItemKind), []),
+  /** Any of these words appears in the item text (case-insensitive) */
+  keywords: types.optional(types.array(types.string), []),
+  /** The item text matches this regular expression */
+  pattern: types.maybe(types.string),
+  /** RegExp flags for `pattern` (default: "i") */
+  flags: types.optional(types.string, "i"),
+  /** The item has a severity at or above this */
+  minSeverity: types.maybe(Severity),
+  /** The item's `provenance.source` is one of these */
+  sources: types.optional(types.array(types.string), []),
+  /** The item carries any of these tags (a tag without value matches any value) */
+  tagsAny: types.optional(types.array(Tag), []),
+});
+
+/**
+ * Masks sensitive text in working memory and LLM payloads. Stored items are never changed.
+ *
+ * - `pattern` only: matches are masked in every item
+ * - `labels` only: whole items carrying one of the sensitivity labels are masked
+ * - both: matches are masked in items carrying one of the labels
+ *
+ * @example
+ * ```typescript
+ * ctx.addRedactionRule({ id: "ssn", pattern: "\\b\\d{3}-\\d{2}-\\d{4}\\b" });
+ * ctx.addRedactionRule({ id: "phi", labels: ["phi"], replacement: "[PHI]" });
+ * ```
+ */
+const RedactionRuleModel = types.model("RedactionRule", {
+  id: types.string,
+  /** Regular expression source; all matches are masked */
+  pattern: types.maybe(types.string),
+  /** Extra RegExp flags (e.g. "i"); "g" is always added */
+  flags: types.optional(types.string, ""),
+  /** Sensitivity labels the rule applies to; empty means every item */
+  labels: types.optional(types.array(types.string), []),
+  /** Placeholder for masked text (default: `[REDACTED:<id>]`) */
+  replacement: types.maybe(types.string),
+});
+
+/** `flags` with the "g" every redaction pattern runs with */
+const redactionFlags = (flags = "") => (flags.includes("g") ? flags : `${flags}g`);
+
+/** Whether a redaction rule's `pattern` compiles with its `flags` */
+const isValidRedactionPattern = (rule: { pattern?: string; flags?: string }) => {
+  if (rule.pattern === undefined) return true;
+  try {
+    new RegExp(rule.pattern, redactionFlags(rule.flags));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const RedactionRule = types.refinement(
+  RedactionRuleModel,
+  (rule) => !rule || isValidRedactionPattern(rule),
+  () => "pattern must be a valid regular expression with valid flags",
+);
+
+/**
+ * Near-duplicate detection for `ingestEvidence()`. Disabled by default.
+ */
+const DedupPolicy = types.model("DedupPolicy", {
+  enabled: types.optional(types.boolean, false),
+  /** Shingle Jaccard similarity at or above which evidence counts as a duplicate (default: 0.8) */
+  threshold: types.optional(ConfidenceNumeric, 0.8),
+  /** Character shingle length (default: 3) */
+  shingleSize: types.optional(types.number, 3),
+  /**
+   * "merge": drop the input and bump `occurrences` / `lastSeenAt` on the existing item;
+   * "link": store the input as superseded with a `duplicateOf` relation (default: "merge")
+   */
+  mode: types.optional(
+    types.enumeration<"merge" | "link">("DedupMode", ["merge", "link"]),
+    "merge",
+  ),
+});
+
+/**
+ * Controls contradiction detection between evidence and assumptions.
+ */
+const ContradictionPolicy = types.model("ContradictionPolicy", {
+  /** Check each written evidence item or assumption against the others (default: false) */
+  autoDetect: types.optional(types.boolean, false),
+  /** Registered detectors to run, in order; the first that fires names the conflict */
+  detectors: types.optional(
+    types.array(
+      types.refinement(
+        "ContradictionDetectorName",
+        types.string,
+        (name) => contradictionDetectors.has(name),
+        (name) => `unknown contradiction detector "${name}"`,
+      ),
+    ),
+    ["polarity"],
+  ),
+});
+
+/**
+ * Time-based decay for one kind, applied lazily when scoring: stored items are never changed.
+ * Age is measured from the item's `updatedAt` (or `createdAt`).
+ *
+ * @example
+ * ```typescript
+ * // market news: confidence halves every 6h, severity drops a level every 12h
+ * ctx.setDecayPolicy("evidence", { confidenceHalfLifeHours: 6, severityStepHours: 12 });
+ * ```
+ */
+const DecayPolicy = types.model("DecayPolicy", {
+  /** Hours for confidence to halve; unset disables confidence decay */
+  confidenceHalfLifeHours: types.maybe(types.number),
+  /** Confidence never decays below this (default: 0) */
+  minConfidence: types.optional(ConfidenceNumeric, 0),
+  /** Severity drops one level per this many hours; unset disables severity decay */
+  severityStepHours: types.maybe(types.number),
+  /** Severity never drops below this (default: "low") */
+  minSeverity: types.optional(Severity, "low"),
+});
+
+/**
+ * Controls how attached evidence updates assumptions.
+ */
+const AssumptionPolicy = types.model("AssumptionPolicy", {
+  /** Name of a registered update rule (default: "logOdds") */
+  rule: types.optional(
+    types.refinement(
+      "AssumptionUpdateRuleName",
+      types.string,
+      (name) => assumptionUpdateRules.has(name),
+      (name) => `unknown assumption update rule "${name}"`,
+    ),
+    "logOdds",
+  ),
+  /** Confidence at or above which an assumption becomes "validated" (default: 0.9) */
+  validateAt: types.optional(ConfidenceNumeric, 0.9),
+  /** Confidence at or below which an assumption becomes "invalidated" (default: 0.1) */
+  invalidateAt: types.optional(ConfidenceNumeric, 0.1),
+});
+
+/**
+ * Record of a deleted knowledge object, kept so archives can still explain
+ * refs that no longer resolve.
+ */
+const Tombstone = types.model("Tombstone", {
+  /** The type of the removed item */
+  kind: ContextItemKind,
+  /** The identifier of the removed item */
+  id: types.string,
+  /** When the item was removed */
+  removedAt: types.optional(ISODateString, () => new Date().toISOString()),
+  /** Optional reason supplied by the caller */
+  reason: types.maybe(types.string),
+  /** Snapshot of the item at removal time */
+  item: types.frozen(),
+});
+
 /** ---------- Framework Root ---------- */
 
 /**
@@ -891,6 +2735,16 @@ export const ActiveMetaContext = types
     questions: types.optional(types.map(OpenQuestion), {}),
     decisions: types.optional(types.map(Decision), {}),
 
+    // Items of custom kinds: kind -> id -> item snapshot
+    customObjects: types.optional(types.map(types.map(types.frozen())), {}),
+
+    // Typed edges between knowledge objects
+    relations: types.optional(types.map(Relation), {}),
+
+    // Disagreements between evidence and assumptions, keyed by pair
+    conflicts: types.optional(types.map(Conflict), {}),
+    contradictionPolicy: types.optional(ContradictionPolicy, {}),
+
     // Lanes
     lanes: types.optional(types.map(ContextLane), {}),
 
@@ -903,6 +2757,28 @@ export const ActiveMetaContext = types
     // Archive log
     archive: types.optional(types.array(ArchiveEntry), []),
 
+    // Records of removed knowledge objects
+    tombstones: types.optional(types.array(Tombstone), []),
+
+    // Per-item revision log, keyed by `kind:id`
+    revisionPolicy: types.optional(RevisionPolicy, {}),
+    revisions: types.optional(types.map(types.array(Revision)), {}),
+
+    // How attached evidence updates assumption confidence
+    assumptionPolicy: types.optional(AssumptionPolicy, {}),
+
+    // Per-kind time-based decay of confidence and severity, keyed by kind
+    decayPolicies: types.optional(types.map(DecayPolicy), {}),
+
+    // Near-duplicate detection for ingested evidence
+    dedupPolicy: types.optional(DedupPolicy, {}),
+
+    // Masking applied to working memory and payloads
+    redactionRules: types.optional(types.array(RedactionRule), []),
+
+    // Tags assigned automatically on upsert
+    taggingRules: types.optional(types.array(TaggingRule), []),
+
     // Lifecycle hooks registry
     hooks: types.optional(HookRegistry, {}),
 
@@ -914,8 +2790,8 @@ export const ActiveMetaContext = types
       (({ p0: 4, p1: 3, p2: 2, p3: 1 }) as const)[p];
 
     const confidenceScore = (c: Instance<typeof Confidence>): number => {
-      if (typeof c === "number") return 1 + c * 2; // 0->1, 0.5->2, 1->3
-      return ({ low: 1, medium: 2, high: 3 } as const)[c];
+      // 0->1, 0.5->2, 1->3; labels go through the same scale
+      return 1 + 2 * (typeof c === "number" ? c : CONFIDENCE_LABEL_VALUE[c]);
     };
 
     const severityScore = (s: Instance<typeof Severity>) =>
@@ -928,6 +2804,40 @@ export const ActiveMetaContext = types
       return 1 / (1 + ageHours);
     };
 
+    type CustomItem = Record<string, unknown> & { id: string; tags?: Instance<typeof Tag>[] };
+
+    function getCustomItem(kind: string, id: string): CustomItem | undefined {
+      return self.customObjects.get(kind)?.get(id) as CustomItem | undefined;
+    }
+
+    /** A stored item of any kind: the MST node for built-ins, the snapshot for custom kinds */
+    function getKnowledgeItem(kind: string, id: string): object | undefined {
+      if (kind === "goal") return self.goals.get(id);
+      if (kind === "constraint") return self.constraints.get(id);
+      if (kind === "assumption") return self.assumptions.get(id);
+      if (kind === "evidence") return self.evidence.get(id);
+      if (kind === "question") return self.questions.get(id);
+      if (kind === "decision") return self.decisions.get(id);
+      return getCustomItem(kind, id);
+    }
+
+    /** Default scorer for custom kinds: the built-in formula over whatever fields exist */
+    function defaultCustomScore(item: CustomItem, helpers: KindScoringHelpers) {
+      const { policy } = helpers;
+      const sev =
+        typeof item.severity === "string" ? helpers.severityScore(item.severity as never) : 0;
+      const conf = item.confidence != null ? helpers.confidenceScore(item.confidence as never) : 0;
+      const pri =
+        typeof item.priority === "string" ? helpers.priorityScore(item.priority as never) : 0;
+      const rec = helpers.recencyScore((item.updatedAt ?? item.createdAt) as string | undefined);
+      return (
+        policy.wSeverity * sev +
+        policy.wConfidence * conf +
+        policy.wPriority * pri +
+        policy.wRecency * rec
+      );
+    }
+
     const tagsMatchAny = (
       itemTags: { key: string; value?: string | null }[],
       matchTags: { key: string; value?: string | null }[],
@@ -939,6 +2849,35 @@ export const ActiveMetaContext = types
       );
     };
 
+    /**
+     * Items whose tags match a filter expression, or a lane's membership tags
+     * (`includeTagsAny` and `tagFilter`, over the lane's `includeKinds`) when given a lane id.
+     * Only tags are tested; status and other selection rules are not applied.
+     */
+    function getTagFilterMatches(filterOrLaneId: TagFilterExpr | string): ItemRef[] {
+      let kinds: string[] = listKnowledgeObjectKinds();
+      let matches: (tags: Instance<typeof Tag>[]) => boolean;
+      if (typeof filterOrLaneId === "string") {
+        const lane = self.lanes.get(filterOrLaneId);
+        if (!lane) return [];
+        kinds = lane.window.policy.includeKinds.slice();
+        matches = (tags) =>
+          tagsMatchAny(tags, lane.includeTagsAny) &&
+          (!lane.tagFilter || matchesTagFilter(tags, lane.tagFilter));
+      } else {
+        const err = tagFilterError(filterOrLaneId);
+        if (err) throw new Error(`Invalid tag filter: ${err}`);
+        matches = (tags) => matchesTagFilter(tags, filterOrLaneId);
+      }
+      const out: ItemRef[] = [];
+      for (const kind of kinds) {
+        for (const id of getAllIdsByKind(kind)) {
+          if (matches(getItemTags(kind, id))) out.push({ kind, id });
+        }
+      }
+      return out;
+    }
+
     function getItemTags(
       kind: Instance<typeof ContextItemKind>,
       id: string,
@@ -949,17 +2888,91 @@ export const ActiveMetaContext = types
       if (kind === "evidence") return self.evidence.get(id)?.tags ?? [];
       if (kind === "question") return self.questions.get(id)?.tags ?? [];
       if (kind === "decision") return self.decisions.get(id)?.tags ?? [];
-      return [];
+      return getCustomItem(kind, id)?.tags ?? [];
     }
 
     function isActive(kind: Instance<typeof ContextItemKind>, id: string) {
       if (kind === "goal") return self.goals.get(id)?.status === "active";
       if (kind === "constraint") return self.constraints.get(id)?.status === "active";
-      if (kind === "assumption") return self.assumptions.get(id)?.status === "active";
+      if (kind === "assumption") {
+        const status = self.assumptions.get(id)?.status;
+        return status === "active" || status === "validated";
+      }
       if (kind === "question") return self.questions.get(id)?.status === "active";
       if (kind === "decision") return self.decisions.get(id)?.status === "active";
-      if (kind === "evidence") return true; // evidence isn't status'd here; treat as usable
-      return false;
+      if (kind === "evidence") return self.evidence.get(id)?.status === "active";
+      const item = getCustomItem(kind, id);
+      const def = knowledgeKindRegistry.get(kind);
+      if (!item || !def) return false;
+      if (def.isActive) return def.isActive(item);
+      return item.status == null || item.status === "active";
+    }
+
+    /**
+     * Decay applied to an item under its kind's decay policy, or undefined if the kind has no
+     * policy or nothing decayed yet.
+     */
+    function getDecayedValues(
+      kind: Instance<typeof ContextItemKind>,
+      id: string,
+    ): DecayedValues | undefined {
+      const decay = self.decayPolicies.get(kind);
+      if (!decay) return undefined;
+      // only evidence, assumptions and custom kinds carry confidence or severity
+      const item = (
+        kind === "evidence"
+          ? self.evidence.get(id)
+          : kind === "assumption"
+            ? self.assumptions.get(id)
+            : isBuiltInKind(kind)
+              ? undefined
+              : getCustomItem(kind, id)
+      ) as Record<string, unknown> | undefined;
+      if (!item) return undefined;
+
+      const since = (item.updatedAt ?? item.createdAt) as string | undefined;
+      if (!since) return undefined;
+      const ageHours = Math.max(0, (Date.now() - new Date(since).getTime()) / (1000 * 60 * 60));
+      const out: DecayedValues = { ageHours };
+
+      const confidence = item.confidence as Instance<typeof Confidence> | undefined;
+      if (confidence != null && decay.confidenceHalfLifeHours && ageHours > 0) {
+        const start =
+          typeof confidence === "number" ? confidence : CONFIDENCE_LABEL_VALUE[confidence];
+        const decayed = start * Math.pow(0.5, ageHours / decay.confidenceHalfLifeHours);
+        // rounded so items only seconds old don't show up as decayed
+        const effective =
+          Math.round(Math.max(Math.min(start, decay.minConfidence), decayed) * 1000) / 1000;
+        if (effective !== start) out.confidence = { original: confidence, effective };
+      }
+
+      const severity = item.severity as Instance<typeof Severity> | undefined;
+      if (severity && decay.severityStepHours) {
+        const level = SEVERITY_LEVELS.indexOf(severity);
+        const floor = Math.min(level, SEVERITY_LEVELS.indexOf(decay.minSeverity));
+        const steps = Math.floor(ageHours / decay.severityStepHours);
+        const effective = SEVERITY_LEVELS[Math.max(floor, level - steps)]!;
+        if (effective !== severity) out.severity = { original: severity, effective };
+      }
+
+      return out.confidence || out.severity ? out : undefined;
+    }
+
+    /**
+     * Trust multiplier for an item under `policy`: its `provenance.ref` entry in `refTrust`,
+     * else its source's entry in `sourceTrust`, else 1 (also for items without provenance).
+     */
+    function getTrustMultiplier(
+      policy: Instance<typeof SelectionPolicy>,
+      kind: Instance<typeof ContextItemKind>,
+      id: string,
+    ): number {
+      const item = getKnowledgeItem(kind, id) as
+        { provenance?: { source?: ProvenanceSource; ref?: string } } | undefined;
+      const provenance = item?.provenance;
+      if (!provenance) return 1;
+      const refTrust = provenance.ref != null ? policy.refTrust[provenance.ref] : undefined;
+      return refTrust ?? (provenance.source && policy.sourceTrust[provenance.source]) ?? 1;
     }
 
     function scoreRef(
@@ -967,9 +2980,50 @@ export const ActiveMetaContext = types
       kind: Instance<typeof ContextItemKind>,
       id: string,
       pinned = false,
+      queryRelevance = 0,
     ) {
       if (pinned) return policy.wPinnedBoost;
+      const base = baseScore(policy, kind, id);
+      if (base === -Infinity) return base;
+      let score =
+        (base + policy.wRelevance * queryRelevance) * getTrustMultiplier(policy, kind, id);
+      if (!policy.scorers.length) return score;
+
+      const stored = getKnowledgeItem(kind, id)!;
+      const item = (isStateTreeNode(stored) ? getSnapshot(stored) : stored) as Record<
+        string,
+        unknown
+      >;
+      const helpers: KindScoringHelpers = {
+        policy,
+        severityScore,
+        confidenceScore,
+        priorityScore,
+        recencyScore,
+      };
+      for (const ref of policy.scorers) {
+        const scorer = scorerRegistry.get(ref.name);
+        if (scorer) {
+          score = scorer({
+            kind,
+            id,
+            item,
+            score,
+            queryRelevance,
+            params: ref.params ?? {},
+            helpers,
+          });
+        }
+      }
+      return score;
+    }
 
+    /** Unpinned score before trust weighting; -Infinity for missing or inactive items */
+    function baseScore(
+      policy: Instance<typeof SelectionPolicy>,
+      kind: Instance<typeof ContextItemKind>,
+      id: string,
+    ) {
       let sev = 0;
       let conf = 0;
       let pri = 0;
@@ -978,13 +3032,14 @@ export const ActiveMetaContext = types
       if (kind === "evidence") {
         const e = self.evidence.get(id);
         if (!e) return -Infinity;
-        sev = severityScore(e.severity);
-        conf = confidenceScore(e.confidence);
-        rec = recencyScore(e.createdAt);
+        const decayed = getDecayedValues(kind, id);
+        sev = severityScore(decayed?.severity?.effective ?? e.severity);
+        conf = confidenceScore(decayed?.confidence?.effective ?? e.confidence);
+        rec = recencyScore(e.lastSeenAt ?? e.createdAt);
       } else if (kind === "assumption") {
         const a = self.assumptions.get(id);
-        if (!a || a.status !== "active") return -Infinity;
-        conf = confidenceScore(a.confidence);
+        if (!a || !isActive(kind, id)) return -Infinity;
+        conf = confidenceScore(getDecayedValues(kind, id)?.confidence?.effective ?? a.confidence);
         rec = recencyScore(a.updatedAt);
       } else if (kind === "goal") {
         const g = self.goals.get(id);
@@ -998,13 +3053,33 @@ export const ActiveMetaContext = types
         rec = recencyScore(c.createdAt);
       } else if (kind === "question") {
         const q = self.questions.get(id);
-        if (!q || q.status !== "active") return -Infinity;
+        if (!q || (q.status !== "active" && !q.isResolved)) return -Infinity;
         pri = priorityScore(q.priority);
         rec = recencyScore(q.createdAt);
       } else if (kind === "decision") {
         const d = self.decisions.get(id);
         if (!d || d.status !== "active") return -Infinity;
         rec = recencyScore(d.createdAt);
+      } else {
+        const item = getCustomItem(kind, id);
+        const def = knowledgeKindRegistry.get(kind);
+        if (!item || !def || !isActive(kind, id)) return -Infinity;
+        const decayed = getDecayedValues(kind, id);
+        const scored = decayed
+          ? {
+              ...item,
+              ...(decayed.confidence && { confidence: decayed.confidence.effective }),
+              ...(decayed.severity && { severity: decayed.severity.effective }),
+            }
+          : item;
+        const helpers: KindScoringHelpers = {
+          policy,
+          severityScore,
+          confidenceScore,
+          priorityScore,
+          recencyScore,
+        };
+        return def.score ? def.score(scored, helpers) : defaultCustomScore(scored, helpers);
       }
 
       return (
@@ -1022,7 +3097,9 @@ export const ActiveMetaContext = types
       if (kind === "evidence") return self.evidence.get(id)?.summary;
       if (kind === "question") return self.questions.get(id)?.question;
       if (kind === "decision") return self.decisions.get(id)?.statement;
-      return undefined;
+      const item = getCustomItem(kind, id);
+      if (!item) return undefined;
+      return knowledgeKindRegistry.get(kind)?.summarize(item);
     }
 
     function getAllIdsByKind(kind: Instance<typeof ContextItemKind>): string[] {
@@ -1032,253 +3109,2106 @@ export const ActiveMetaContext = types
       if (kind === "evidence") return Array.from(self.evidence.keys());
       if (kind === "question") return Array.from(self.questions.keys());
       if (kind === "decision") return Array.from(self.decisions.keys());
-      return [];
+      return Array.from(self.customObjects.get(kind)?.keys() ?? []);
     }
 
-    return {
-      summarizeRef,
-      isActive,
-      getItemTags,
+    /**
+     * Relations touching `ref`.
+     * `direction` selects outgoing edges (`ref` is `from`), incoming edges (`ref` is `to`) or both.
+     */
+    function getRelations(
+      ref: ItemRef,
+      opts?: { type?: RelationType | RelationType[]; direction?: "out" | "in" | "both" },
+    ): Instance<typeof Relation>[] {
+      const direction = opts?.direction ?? "both";
+      const typeFilter = opts?.type == null ? null : ([] as RelationType[]).concat(opts.type);
+      const result: Instance<typeof Relation>[] = [];
+      for (const r of self.relations.values()) {
+        if (typeFilter && !typeFilter.includes(r.type)) continue;
+        const isOut = r.from.kind === ref.kind && r.from.id === ref.id;
+        const isIn = r.to.kind === ref.kind && r.to.id === ref.id;
+        if ((direction !== "in" && isOut) || (direction !== "out" && isIn)) result.push(r);
+      }
+      return result;
+    }
+
+    /**
+     * Items linked to `ref`, one entry per edge, with the edge type and direction
+     * as seen from `ref`.
+     */
+    function getNeighbors(
+      ref: ItemRef,
+      opts?: { type?: RelationType | RelationType[]; direction?: "out" | "in" | "both" },
+    ): Array<ItemRef & { relationType: RelationType; direction: "out" | "in" }> {
+      return getRelations(ref, opts).map((r) => {
+        const isOut = r.from.kind === ref.kind && r.from.id === ref.id;
+        const other = isOut ? r.to : r.from;
+        return {
+          kind: other.kind,
+          id: other.id,
+          relationType: r.type,
+          direction: isOut ? ("out" as const) : ("in" as const),
+        };
+      });
+    }
+
+    type RevisionRecord = SnapshotOut<typeof Revision>;
+
+    /** Revision log of an item, oldest first (empty if history is disabled or unknown) */
+    function getRevisions(kind: KnowledgeObjectKind, id: string): RevisionRecord[] {
+      return (self.revisions.get(`${kind}:${id}`) ?? []).map((r) => getSnapshot(r));
+    }
+
+    /**
+     * Field-level differences between two revisions of an item.
+     * Returns undefined if either revision is no longer retained.
+     */
+    function diffRevisions(
+      kind: KnowledgeObjectKind,
+      id: string,
+      fromRev: number,
+      toRev: number,
+    ): Array<{ field: string; before: unknown; after: unknown }> | undefined {
+      const log = getRevisions(kind, id);
+      const a = log.find((r) => r.rev === fromRev);
+      const b = log.find((r) => r.rev === toRev);
+      if (!a || !b) return undefined;
+      const before = (a.snapshot ?? {}) as Record<string, unknown>;
+      const after = (b.snapshot ?? {}) as Record<string, unknown>;
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      return Array.from(keys)
+        .filter((k) => JSON.stringify(before[k]) !== JSON.stringify(after[k]))
+        .map((field) => ({ field, before: before[field], after: after[field] }));
+    }
+
+    /**
+     * The latest revision recorded at or before `at` (ISO string or Date),
+     * i.e. what the context believed about the item at that moment.
+     */
+    function getRevisionAt(
+      kind: KnowledgeObjectKind,
+      id: string,
+      at: string | Date,
+    ): RevisionRecord | undefined {
+      const t = new Date(at).getTime();
+      let found: RevisionRecord | undefined;
+      for (const r of getRevisions(kind, id)) {
+        if (new Date(r.at).getTime() <= t) found = r;
+      }
+      return found;
+    }
+
+    /**
+     * The supersession chain containing decision `id`, oldest first, ending at the
+     * current head. Returns an empty array for unknown decisions.
+     */
+    function getDecisionChain(id: string): Instance<typeof Decision>[] {
+      const start = self.decisions.get(id);
+      if (!start) return [];
+      const seen = new Set<string>([start.id]);
+      const chain = [start];
+      // walk back to the root…
+      for (let d = start; d.supersedes && !seen.has(d.supersedes);) {
+        const prev = self.decisions.get(d.supersedes);
+        if (!prev) break;
+        seen.add(prev.id);
+        chain.unshift(prev);
+        d = prev;
+      }
+      // …and forward to the head
+      for (let d = start; d.supersededBy && !seen.has(d.supersededBy);) {
+        const next = self.decisions.get(d.supersededBy);
+        if (!next) break;
+        seen.add(next.id);
+        chain.push(next);
+        d = next;
+      }
+      return chain;
+    }
+
+    /** The decision currently in force for the chain containing `id` */
+    function getCurrentDecision(id: string): Instance<typeof Decision> | undefined {
+      const chain = getDecisionChain(id);
+      return chain[chain.length - 1];
+    }
+
+    /** Direct sub-goals of a goal */
+    function getSubGoals(goalId: string): Instance<typeof Goal>[] {
+      return [...self.goals.values()].filter((g) => g.parentId === goalId);
+    }
+
+    /** Ancestors of a goal, root first. Stops at missing parents and cycles. */
+    function getGoalAncestors(goalId: string): Instance<typeof Goal>[] {
+      const seen = new Set<string>([goalId]);
+      const out: Instance<typeof Goal>[] = [];
+      let parentId = self.goals.get(goalId)?.parentId;
+      while (parentId && !seen.has(parentId)) {
+        const parent = self.goals.get(parentId);
+        if (!parent) break;
+        seen.add(parentId);
+        out.unshift(parent);
+        parentId = parent.parentId;
+      }
+      return out;
+    }
+
+    /**
+     * Derive a goal's progress and status from its sub-goals, recursively.
+     * A parent is "done" once all its non-archived sub-goals are done, "active" while any is
+     * active, and "paused" otherwise.
+     */
+    function getGoalRollup(goalId: string, seen = new Set<string>()): GoalRollup | undefined {
+      const goal = self.goals.get(goalId);
+      if (!goal || seen.has(goalId)) return undefined;
+      seen.add(goalId);
+
+      const children = getSubGoals(goalId)
+        .map((g) => getGoalRollup(g.id, seen))
+        .filter((r): r is GoalRollup => !!r);
+      const counted = children.filter((c) => c.status !== "archived");
+      if (!counted.length || goal.status === "archived") {
+        return { goalId, progress: goal.ownProgress, status: goal.status, children };
+      }
+
+      const progress = counted.reduce((sum, c) => sum + c.progress, 0) / counted.length;
+      const status = counted.every((c) => c.status === "done")
+        ? "done"
+        : counted.some((c) => c.status === "active")
+          ? "active"
+          : "paused";
+      return { goalId, progress, status, children };
+    }
+
+    /**
+     * The active evidence most similar to `text` at or above the dedup threshold, if any.
+     * Evidence with ID `excludeId` is skipped.
+     */
+    function findNearDuplicateEvidence(
+      text: string,
+      excludeId?: string,
+    ): { id: string; similarity: number } | undefined {
+      const { threshold, shingleSize } = self.dedupPolicy;
+      let best: { id: string; similarity: number } | undefined;
+      for (const e of self.evidence.values()) {
+        if (e.id === excludeId || e.status !== "active") continue;
+        const similarity = shingleSimilarity(text, e.summary, shingleSize);
+        if (similarity >= threshold && (!best || similarity > best.similarity)) {
+          best = { id: e.id, similarity };
+        }
+      }
+      return best;
+    }
+
+    /** Open conflicts with at least one side among `refs` (all open conflicts if omitted) */
+    function getOpenConflicts(refs?: { kind: string; id: string }[]) {
+      const keys = refs && new Set(refs.map((r) => `${r.kind}:${r.id}`));
+      return [...self.conflicts.values()].filter(
+        (c) =>
+          c.status === "open" &&
+          (!keys || keys.has(`${c.a.kind}:${c.a.id}`) || keys.has(`${c.b.kind}:${c.b.id}`)),
+      );
+    }
+
+    /** "A ⟷ B (reason)" lines for the open conflicts touching `refs` */
+    function getOpenConflictLines(
+      refs?: { kind: string; id: string }[],
+      summarize: (kind: string, id: string) => string | undefined = summarizeRef,
+    ) {
+      return getOpenConflicts(refs).map(
+        (c) =>
+          `${summarize(c.a.kind, c.a.id) ?? c.a.id} ⟷ ${summarize(c.b.kind, c.b.id) ?? c.b.id} (${c.reason})`,
+      );
+    }
+
+    /** Sensitivity labels of an item (empty for unknown items) */
+    function getSensitivity(kind: Instance<typeof ContextItemKind>, id: string): string[] {
+      const item = getKnowledgeItem(kind, id) as { sensitivity?: string[] } | undefined;
+      return item?.sensitivity ? [...item.sensitivity] : [];
+    }
+
+    /**
+     * Searchable text of an item snapshot: title / statement / summary (+ detail) / question,
+     * or the kind's `summarize()` for custom kinds. Used by tagging rules and query relevance.
+     */
+    function itemText(kind: string, item: Record<string, unknown>): string {
+      if (kind === "goal") return String(item.title ?? "");
+      if (kind === "evidence") return [item.summary, item.detail].filter(Boolean).join("\n");
+      if (kind === "question") return String(item.question ?? "");
+      if (isBuiltInKind(kind)) return String(item.statement ?? "");
+      return knowledgeKindRegistry.get(kind)?.summarize(item as never) ?? "";
+    }
+
+    /** Searchable text of a stored item (empty for unknown items) */
+    function getItemText(kind: Instance<typeof ContextItemKind>, id: string): string {
+      const stored = getKnowledgeItem(kind, id);
+      if (!stored) return "";
+      return itemText(
+        kind,
+        (isStateTreeNode(stored) ? getSnapshot(stored) : stored) as Record<string, unknown>,
+      );
+    }
+
+    /**
+     * Which tagging rules fire for an item, without changing anything. `item` is a stored
+     * item's ID or a proposed snapshot.
+     */
+    function dryRunTaggingRules(
+      kind: Instance<typeof ContextItemKind>,
+      item: string | Record<string, unknown>,
+    ): TaggingRuleMatch[] {
+      const snapshot =
+        typeof item === "string"
+          ? (() => {
+              const stored = getKnowledgeItem(kind, item);
+              if (!stored) return undefined;
+              return (isStateTreeNode(stored) ? getSnapshot(stored) : stored) as Record<
+                string,
+                unknown
+              >;
+            })()
+          : item;
+      if (!snapshot) return [];
+
+      const text = itemText(kind, snapshot);
+      const severity = snapshot.severity as Instance<typeof Severity> | undefined;
+      const source = (snapshot.provenance as { source?: string } | undefined)?.source;
+      const manualTags = (
+        (snapshot.tags ?? []) as { key: string; value?: string | null; rule?: string }[]
+      ).filter((t) => !t.rule);
+      const words = new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u));
+
+      const fired: TaggingRuleMatch[] = [];
+      for (const rule of self.taggingRules) {
+        if (rule.kinds.length && !rule.kinds.includes(kind)) continue;
+        if (rule.keywords.length && !rule.keywords.some((k) => words.has(k.toLowerCase())))
+          continue;
+        if (rule.pattern && !new RegExp(rule.pattern, rule.flags).test(text)) continue;
+        if (
+          rule.minSeverity &&
+          (!severity ||
+            SEVERITY_LEVELS.indexOf(severity) < SEVERITY_LEVELS.indexOf(rule.minSeverity))
+        ) {
+          continue;
+        }
+        if (rule.sources.length && (!source || !rule.sources.includes(source))) continue;
+        if (rule.tagsAny.length && !tagsMatchAny(manualTags, rule.tagsAny)) continue;
+        fired.push({
+          ruleId: rule.id,
+          tags: rule.tags.map((t) => ({ key: t.key, ...(t.value != null && { value: t.value }) })),
+        });
+      }
+      return fired;
+    }
+
+    return {
+      getCustomItem,
+      getKnowledgeItem,
+      getItemText,
+      dryRunTaggingRules,
+      getSensitivity,
+      getTrustMultiplier,
+      getOpenConflicts,
+      getOpenConflictLines,
+      findNearDuplicateEvidence,
+      getSubGoals,
+      getGoalAncestors,
+      getGoalRollup,
+      getDecayedValues,
+      getDecisionChain,
+      getCurrentDecision,
+      getRevisions,
+      diffRevisions,
+      getRevisionAt,
+      summarizeRef,
+      isActive,
+      getItemTags,
       tagsMatchAny,
+      getTagFilterMatches,
       scoreRef,
       getAllIdsByKind,
+      getRelations,
+      getNeighbors,
 
       get laneList() {
         return Array.from(self.lanes.values());
       },
 
-      get activeSelectedSummaries() {
-        return self.activeWindow.selected
-          .map((r) => ({ ...r, text: summarizeRef(r.kind, r.id) }))
-          .filter((x) => !!x.text);
+      get activeSelectedSummaries() {
+        return self.activeWindow.selected
+          .map((r) => ({ ...r, text: summarizeRef(r.kind, r.id) }))
+          .filter((x) => !!x.text);
+      },
+    };
+  })
+  .volatile(() => ({
+    /** Nesting depth of `batch()` calls; events and touches are deferred while > 0 */
+    batchDepth: 0,
+    /** Events emitted inside the current batch, flushed on commit */
+    pendingEvents: [] as HookEvent[],
+  }))
+  .actions((self) => {
+    const touch = () => {
+      if (self.batchDepth > 0) return; // batch() touches once on commit
+      self.updatedAt = new Date().toISOString();
+    };
+
+    type HookEventWithoutMeta<T extends HookEvent> = Omit<T, "timestamp" | "contextId">;
+    type AnyHookEventWithoutMeta =
+      | HookEventWithoutMeta<KnowledgeObjectUpsertedEvent>
+      | HookEventWithoutMeta<LaneCreatedEvent>
+      | HookEventWithoutMeta<LaneRemovedEvent>
+      | HookEventWithoutMeta<LaneStatusChangedEvent>
+      | HookEventWithoutMeta<LanePinChangedEvent>
+      | HookEventWithoutMeta<LaneRefreshedEvent>
+      | HookEventWithoutMeta<LanesRefreshedAllEvent>
+      | HookEventWithoutMeta<ActiveWindowMergedEvent>
+      | HookEventWithoutMeta<WorkingMemorySynthesizedEvent>
+      | HookEventWithoutMeta<ArchiveCreatedEvent>
+      | HookEventWithoutMeta<EvidenceIngestedEvent>
+      | HookEventWithoutMeta<RelationLinkedEvent>
+      | HookEventWithoutMeta<RelationUnlinkedEvent>
+      | HookEventWithoutMeta<KnowledgeObjectRemovedEvent>
+      | HookEventWithoutMeta<EvidenceStatusChangedEvent>
+      | HookEventWithoutMeta<KnowledgeObjectsBatchUpsertedEvent>
+      | HookEventWithoutMeta<QuestionAnsweredEvent>
+      | HookEventWithoutMeta<DecisionSupersededEvent>
+      | HookEventWithoutMeta<AssumptionConfidenceUpdatedEvent>
+      | HookEventWithoutMeta<AssumptionStatusChangedEvent>
+      | HookEventWithoutMeta<ConstraintViolatedEvent>
+      | HookEventWithoutMeta<ConflictDetectedEvent>
+      | HookEventWithoutMeta<ConflictResolvedEvent>
+      | HookEventWithoutMeta<TagsReevaluatedEvent>;
+
+    const emitEvent = (event: AnyHookEventWithoutMeta) => {
+      const full = {
+        ...event,
+        timestamp: new Date().toISOString(),
+        contextId: self.id,
+      } as HookEvent;
+      if (self.batchDepth > 0) self.pendingEvents.push(full);
+      else self.hooks._emit(full);
+    };
+
+    /** Emit deferred batch events, folding the upserts into one aggregated event */
+    const flushBatchEvents = (events: HookEvent[]) => {
+      const upserts = events.filter(
+        (e): e is KnowledgeObjectUpsertedEvent => e.type === "knowledgeObject:upserted",
+      );
+      let aggregated = false;
+      for (const event of events) {
+        if (event.type !== "knowledgeObject:upserted") {
+          self.hooks._emit(event);
+          continue;
+        }
+        if (aggregated) continue;
+        aggregated = true;
+        emitEvent({
+          type: "knowledgeObjects:batchUpserted",
+          count: upserts.length,
+          items: upserts.map((u) => ({
+            kind: u.kind,
+            id: u.id,
+            isNew: u.isNew,
+            changedFields: u.changedFields,
+            item: u.item,
+          })),
+        });
+      }
+    };
+
+    /** Top-level fields whose values differ between two item snapshots, ignoring `updatedAt` */
+    const changedFieldsBetween = (
+      before: Record<string, unknown>,
+      after: Record<string, unknown>,
+    ): string[] => {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      keys.delete("updatedAt");
+      return Array.from(keys).filter((k) => JSON.stringify(before[k]) !== JSON.stringify(after[k]));
+    };
+
+    /** Append to an item's revision log when history is enabled */
+    const recordRevision = (
+      kind: KnowledgeObjectKind,
+      id: string,
+      before: Record<string, unknown> | undefined,
+      after: Record<string, unknown> | undefined,
+      by?: string,
+    ) => {
+      if (!self.revisionPolicy.enabled) return;
+      const changes = Array.from(
+        new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]),
+      )
+        .filter((k) => JSON.stringify(before?.[k]) !== JSON.stringify(after?.[k]))
+        .map((field) => ({ field, before: before?.[field], after: after?.[field] }));
+      const change = !after ? "removed" : !before ? "created" : "updated";
+      if (change === "updated" && !changes.some((c) => c.field !== "updatedAt")) return;
+
+      const key = `${kind}:${id}`;
+      if (!self.revisions.has(key)) self.revisions.set(key, []);
+      const log = self.revisions.get(key)!;
+      log.push({
+        rev: (log[log.length - 1]?.rev ?? 0) + 1,
+        by,
+        change,
+        changes,
+        snapshot: after ?? null,
+      });
+      const overflow = log.length - Math.max(1, self.revisionPolicy.maxRevisionsPerItem);
+      if (overflow > 0) log.splice(0, overflow);
+    };
+
+    /** `kind:id` of items whose revision the running context action records itself */
+    const ownRevisions = new Set<string>();
+
+    /**
+     * Run item actions on `kind:id` without the revision middleware recording them, for
+     * context actions that record the whole write as one revision via `emitUpserted`.
+     */
+    const withOwnRevision = <T>(kind: KnowledgeObjectKind, id: string, fn: () => T): T => {
+      const key = `${kind}:${id}`;
+      ownRevisions.add(key);
+      try {
+        return fn();
+      } finally {
+        ownRevisions.delete(key);
+      }
+    };
+
+    const emitUpserted = (
+      kind: KnowledgeObjectKind,
+      id: string,
+      before: Record<string, unknown> | undefined,
+      after: Record<string, unknown>,
+      by?: string,
+    ) => {
+      recordRevision(kind, id, before, after, by);
+      emitEvent({
+        type: "knowledgeObject:upserted",
+        kind,
+        id,
+        item: after,
+        isNew: !before,
+        changedFields: before ? changedFieldsBetween(before, after) : undefined,
+      });
+    };
+
+    type RuleTag = { key: string; value?: string; rule?: string };
+    const tagKey = (t: { key: string; value?: string | null }) => `${t.key}=${t.value ?? ""}`;
+
+    /**
+     * Replace the rule-assigned tags of a stored item with those of the rules that fire now.
+     * Tags the caller set are kept, and rules don't duplicate them.
+     * Returns the tags added and removed, or undefined if nothing changed.
+     */
+    const applyTaggingRules = (kind: KnowledgeObjectKind, id: string) => {
+      const stored = self.getKnowledgeItem(kind, id);
+      if (!stored) return undefined;
+      const current = (itemSnapshot(stored).tags ?? []) as RuleTag[];
+      const manual = current.filter((t) => !t.rule);
+      const previous = current.filter((t) => t.rule);
+
+      const seen = new Set(manual.map(tagKey));
+      const next: RuleTag[] = [];
+      for (const match of self.dryRunTaggingRules(kind, id)) {
+        for (const t of match.tags) {
+          if (seen.has(tagKey(t))) continue;
+          seen.add(tagKey(t));
+          next.push({ ...t, rule: match.ruleId });
+        }
+      }
+
+      const label = (t: RuleTag) => `${tagKey(t)}@${t.rule}`;
+      const prevLabels = new Set(previous.map(label));
+      const nextLabels = new Set(next.map(label));
+      const added = next.filter((t) => !prevLabels.has(label(t)));
+      const removed = previous.filter((t) => !nextLabels.has(label(t)));
+      if (!added.length && !removed.length) return undefined;
+
+      const tags = [...manual, ...next];
+      if (isStateTreeNode(stored)) {
+        (stored as unknown as { tags: { replace(items: RuleTag[]): void } }).tags.replace(tags);
+      } else {
+        self.customObjects.get(kind)!.set(id, { ...(stored as object), tags });
+      }
+      return { added, removed };
+    };
+
+    /**
+     * Status bookkeeping for evidence whose status was changed by an upsert or patch, as
+     * `setEvidenceStatus()` does it: stamps `statusChangedAt` and sets `statusReason` to the
+     * one given with the write (clearing a stale one). Returns the `evidence:statusChanged`
+     * event to emit, or undefined if the status did not change.
+     */
+    const trackEvidenceStatus = (
+      id: string,
+      oldStatus: EvidenceStatus | undefined,
+      reason: string | undefined,
+    ): HookEventWithoutMeta<EvidenceStatusChangedEvent> | undefined => {
+      const e = self.evidence.get(id);
+      if (!e || !oldStatus || e.status === oldStatus) return undefined;
+      withOwnRevision("evidence", id, () => e.setStatus(e.status, reason));
+      return {
+        type: "evidence:statusChanged",
+        evidenceId: id,
+        oldStatus,
+        newStatus: e.status,
+        reason,
+      };
+    };
+
+    const upsertMapItem = <T extends { id: string }>(
+      map: {
+        set: (key: string, value: T) => void;
+        has: (key: string) => boolean;
+        get: (key: string) => T | undefined;
+      },
+      input: T,
+      kind: KnowledgeObjectKind,
+      meta?: ChangeMeta,
+    ) => {
+      const existing = map.get(input.id);
+      const before = existing ? itemSnapshot(existing) : undefined;
+      // supersession links survive re-upserts that leave them out
+      let item = input;
+      if (kind === "decision" && before) {
+        item = { ...input };
+        for (const link of ["supersedes", "supersededBy"] as const) {
+          if (!(link in input)) Object.assign(item, { [link]: before[link] });
+        }
+      }
+      // superseding an already superseded decision replaces its chain's head instead of forking
+      const replaces =
+        kind === "decision" ? (item as { supersedes?: string }).supersedes : undefined;
+      const replaced = replaces ? self.decisions.get(replaces) : undefined;
+      if (replaced?.supersededBy && replaced.supersededBy !== item.id) {
+        const head = self.getCurrentDecision(replaces!)!;
+        item = { ...item, supersedes: head.id === item.id ? before?.supersedes : head.id };
+      }
+      map.set(item.id, item);
+      const statusChanged =
+        kind === "evidence"
+          ? trackEvidenceStatus(
+              item.id,
+              before?.status as EvidenceStatus | undefined,
+              (item as { statusReason?: string }).statusReason,
+            )
+          : undefined;
+      if (self.taggingRules.length) applyTaggingRules(kind, item.id);
+      touch();
+      // Emit after state change
+      const storedItem = map.get(item.id);
+      emitUpserted(
+        kind,
+        item.id,
+        before,
+        storedItem ? itemSnapshot(storedItem) : { ...item },
+        meta?.by,
+      );
+      if (statusChanged) emitEvent(statusChanged);
+      if (kind === "decision") applySupersession(item.id);
+      if (kind === "evidence") reevaluateAssumptionsFor(item.id);
+      if ((kind === "evidence" || kind === "assumption") && self.contradictionPolicy.autoDetect) {
+        detectContradictions({ kind, id: item.id });
+      }
+    };
+
+    type KnowledgeMap = {
+      get: (key: string) => unknown;
+      has: (key: string) => boolean;
+      delete: (key: string) => boolean;
+    };
+
+    /** The map holding items of `kind`, or undefined for unknown kinds */
+    const knowledgeMapFor = (kind: KnowledgeObjectKind): KnowledgeMap | undefined => {
+      if (kind === "goal") return self.goals;
+      if (kind === "constraint") return self.constraints;
+      if (kind === "assumption") return self.assumptions;
+      if (kind === "evidence") return self.evidence;
+      if (kind === "question") return self.questions;
+      if (kind === "decision") return self.decisions;
+      if (!knowledgeKindRegistry.has(kind)) return undefined;
+      return self.customObjects.get(kind);
+    };
+
+    const itemSnapshot = (stored: unknown) =>
+      ({
+        ...(isStateTreeNode(stored) ? getSnapshot(stored) : (stored as object)),
+      }) as Record<string, unknown>;
+
+    /** Active items, plus inactive evidence when the policy asks for it */
+    const isSelectable = (
+      policy: Instance<typeof SelectionPolicy>,
+      kind: KnowledgeObjectKind,
+      id: string,
+    ) =>
+      self.isActive(kind, id) ||
+      (kind === "evidence" && policy.includeInactiveEvidence) ||
+      (kind === "question" &&
+        policy.includeResolvedQuestions &&
+        !!self.questions.get(id)?.isResolved);
+
+    /** Query similarity (0..1) of each ref, keyed `kind:id`, using the policy's embedder */
+    const queryRelevanceFor = (
+      policy: Instance<typeof SelectionPolicy>,
+      refs: { kind: string; id: string }[],
+      query: string,
+    ) => {
+      const embedder = embedderRegistry.get(policy.embedder) ?? hashingTfidfEmbedder;
+      const [q, ...vectors] = embedder.embed([
+        query,
+        ...refs.map((r) => self.getItemText(r.kind, r.id)),
+      ]);
+      const out = new Map<string, number>();
+      refs.forEach((r, i) => out.set(`${r.kind}:${r.id}`, cosine(q ?? [], vectors[i] ?? [])));
+      return out;
+    };
+
+    type Ref = SnapshotIn<typeof ContextItemRef>;
+
+    /**
+     * Tokens an item's line adds to working memory, memoized per item. Make one per selection:
+     * the redactor (built on first use) compiles every redaction rule.
+     */
+    const makeTokenCost = () => {
+      let redactor: ReturnType<typeof makeRedactor> | undefined;
+      const costs = new Map<string, number>();
+      return (r: Ref) => {
+        const key = `${r.kind}:${r.id}`;
+        let cost = costs.get(key);
+        if (cost === undefined) {
+          const rendered = renderItem(r, (redactor ??= makeRedactor()));
+          cost = rendered ? approxTokens(`- ${rendered.line}`) : 0;
+          costs.set(key, cost);
+        }
+        return cost;
+      };
+    };
+    type TokenCost = ReturnType<typeof makeTokenCost>;
+
+    /**
+     * 0/1 knapsack: at most `slots` refs from `pool` with the highest total score whose rendered
+     * cost fits in `budget` minus what `seeds` (pinned items) cost. Very large tables fall back
+     * to greedy by score per token.
+     */
+    const pickWithinBudget = (
+      pool: Ref[],
+      budget: number,
+      slots: number,
+      seeds: Ref[],
+      cost: TokenCost,
+    ) => {
+      const seedCost = seeds.reduce((sum, r) => sum + cost(r), 0);
+      const capacity = Math.max(0, Math.floor(budget - seedCost));
+      const items = pool
+        .filter((r) => (r.score ?? 0) > 0)
+        .map((r) => ({ r, cost: cost(r), value: r.score ?? 0 }))
+        .filter((x) => x.cost <= capacity);
+
+      const maxCount = Math.min(Math.max(0, slots), items.length);
+      const width = capacity + 1;
+      let chosen: typeof items = [];
+      if (items.length * (maxCount + 1) * width <= 4_000_000) {
+        // best[k * width + c]: best total score using at most k items and c tokens
+        const best = new Float64Array((maxCount + 1) * width);
+        const took = items.map(() => new Uint8Array((maxCount + 1) * width));
+        items.forEach(({ cost, value }, i) => {
+          for (let k = maxCount; k >= 1; k--) {
+            for (let c = capacity; c >= cost; c--) {
+              const withItem = best[(k - 1) * width + c - cost]! + value;
+              if (withItem > best[k * width + c]!) {
+                best[k * width + c] = withItem;
+                took[i]![k * width + c] = 1;
+              }
+            }
+          }
+        });
+        for (let i = items.length - 1, k = maxCount, c = capacity; i >= 0 && k > 0; i--) {
+          if (took[i]![k * width + c]) {
+            chosen.push(items[i]!);
+            k--;
+            c -= items[i]!.cost;
+          }
+        }
+      } else {
+        let left = capacity;
+        const byDensity = [...items].sort(
+          (a, b) => b.value / Math.max(1, b.cost) - a.value / Math.max(1, a.cost),
+        );
+        for (const x of byDensity) {
+          if (chosen.length >= maxCount) break;
+          if (x.cost > left) continue;
+          chosen.push(x);
+          left -= x.cost;
+        }
+      }
+
+      chosen.sort((a, b) => b.value - a.value);
+      const used = seedCost + chosen.reduce((sum, x) => sum + x.cost, 0);
+      return { picked: chosen.map((x) => x.r), tokens: { budget, used } };
+    };
+
+    /**
+     * Take up to `slots` refs from `pool`: by score (within the policy's token budget, if set),
+     * or by maximal marginal relevance when the policy asks for diversity. `seeds` (pinned
+     * items) count as already selected.
+     */
+    const pickTop = (
+      policy: Instance<typeof SelectionPolicy>,
+      pool: Ref[],
+      slots: number,
+      seeds: Ref[],
+      cost: TokenCost,
+    ): { picked: Ref[]; report: SelectionReport } => {
+      const budget = policy.tokenBudget;
+      const ranked = [...pool].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+      const byScore =
+        budget === undefined
+          ? { picked: ranked.slice(0, Math.max(0, slots)), tokens: undefined }
+          : pickWithinBudget(pool, budget, slots, seeds, cost);
+      if (policy.diversity !== "mmr" || slots <= 0 || ranked.length <= 1) {
+        return { picked: byScore.picked, report: { redundant: [], tokens: byScore.tokens } };
+      }
+
+      const similarity = similarityRegistry.get(policy.similarity) ?? shingleItemSimilarity;
+      const items = new Map<SnapshotIn<typeof ContextItemRef>, SimilarityItem>();
+      const asItem = (r: SnapshotIn<typeof ContextItemRef>) => {
+        let item = items.get(r);
+        if (!item) {
+          item = {
+            kind: r.kind,
+            id: r.id,
+            text: self.getItemText(r.kind, r.id),
+            tags: self.getItemTags(r.kind, r.id).map((t) => ({ key: t.key, value: t.value })),
+          };
+          items.set(r, item);
+        }
+        return item;
+      };
+
+      // scores scaled to 0..1 (against 0, or the lowest score if negative) so lambda weighs
+      // them against similarity on equal terms
+      const max = ranked[0]!.score ?? 0;
+      const min = Math.min(0, ranked[ranked.length - 1]!.score ?? 0);
+      const norm = (score = 0) => (max === min ? 1 : (score - min) / (max - min));
+
+      const closest = new Map<
+        SnapshotIn<typeof ContextItemRef>,
+        { similarity: number; to: SnapshotIn<typeof ContextItemRef> }
+      >();
+      const compareToSelected = (chosen: SnapshotIn<typeof ContextItemRef>) => {
+        for (const r of remaining) {
+          const sim = similarity(asItem(r), asItem(chosen));
+          if (sim > (closest.get(r)?.similarity ?? -Infinity)) {
+            closest.set(r, { similarity: sim, to: chosen });
+          }
+        }
+      };
+
+      const remaining = [...ranked];
+      for (const seed of seeds) compareToSelected(seed);
+      const seedCost = budget === undefined ? 0 : seeds.reduce((sum, r) => sum + cost(r), 0);
+      // with a token budget, each pick must still fit
+      let left = budget === undefined ? Infinity : budget - seedCost;
+      const picked: SnapshotIn<typeof ContextItemRef>[] = [];
+      while (picked.length < slots && remaining.length) {
+        let bestIdx = -1;
+        let best = -Infinity;
+        remaining.forEach((r, i) => {
+          if (budget !== undefined && cost(r) > left) return;
+          const mmr =
+            policy.diversityLambda * norm(r.score) -
+            (1 - policy.diversityLambda) * (closest.get(r)?.similarity ?? 0);
+          if (mmr > best) {
+            best = mmr;
+            bestIdx = i;
+          }
+        });
+        if (bestIdx < 0) break;
+        const [chosen] = remaining.splice(bestIdx, 1);
+        picked.push(chosen!);
+        if (budget !== undefined) left -= cost(chosen!);
+        compareToSelected(chosen!);
+      }
+
+      // what selection by score alone would have taken, but diversity left out
+      const redundant: RedundantSkip[] = [];
+      for (const r of byScore.picked) {
+        const c = closest.get(r);
+        if (picked.includes(r) || !c) continue;
+        redundant.push({
+          kind: r.kind,
+          id: r.id,
+          score: r.score ?? 0,
+          similarTo: { kind: c.to.kind, id: c.to.id },
+          similarity: c.similarity,
+        });
+      }
+      const tokens = budget === undefined ? undefined : { budget, used: budget - left };
+      return { picked, report: { redundant, tokens } };
+    };
+
+    /**
+     * `pickTop` under the policy's `kindQuotas`: kinds at their max drop out of the pool, then
+     * the best items of kinds below their min are reserved (like pinned items) before the
+     * rest compete for what is left.
+     */
+    const pickWithQuotas = (
+      policy: Instance<typeof SelectionPolicy>,
+      pool: Ref[],
+      slots: number,
+      seeds: Ref[],
+      cost: TokenCost,
+    ): { picked: Ref[]; report: SelectionReport } => {
+      if (!policy.kindQuotas.size) return pickTop(policy, pool, slots, seeds, cost);
+
+      const ranked = [...pool].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+      const countOf = (kind: string, refs: SnapshotIn<typeof ContextItemRef>[]) =>
+        refs.filter((r) => r.kind === kind).length;
+
+      let open = ranked;
+      for (const [kind, quota] of policy.kindQuotas) {
+        if (quota.max === undefined) continue;
+        const allowed = Math.max(0, quota.max - countOf(kind, seeds));
+        const over = new Set(ranked.filter((r) => r.kind === kind).slice(allowed));
+        open = open.filter((r) => !over.has(r));
+      }
+
+      // reservations count against maxItems and the token budget like any other pick
+      const budget = policy.tokenBudget;
+      let left = budget === undefined ? Infinity : budget - seeds.reduce((n, r) => n + cost(r), 0);
+      const reserved: Ref[] = [];
+      const unmetQuotas: QuotaShortfall[] = [];
+      for (const [kind, quota] of policy.kindQuotas) {
+        const have = countOf(kind, seeds);
+        const need = Math.max(0, quota.min - have);
+        if (!need) continue;
+        const available = open.filter((r) => r.kind === kind);
+        let taken = 0;
+        for (const r of available) {
+          if (taken === need || reserved.length >= slots) break;
+          if (budget !== undefined && cost(r) > left) continue;
+          reserved.push(r);
+          taken++;
+          if (budget !== undefined) left -= cost(r);
+        }
+        if (taken === need) continue;
+        const eligible = have + available.length;
+        unmetQuotas.push({
+          kind,
+          min: quota.min,
+          selected: have + taken,
+          eligible,
+          message:
+            eligible < quota.min
+              ? `needs ${quota.min} ${kind} items, only ${eligible} eligible`
+              : reserved.length >= slots
+                ? `needs ${quota.min} ${kind} items, maxItems reached`
+                : `needs ${quota.min} ${kind} items, token budget reached`,
+        });
+      }
+
+      const rest = pickTop(
+        policy,
+        open.filter((r) => !reserved.includes(r)),
+        Math.max(0, slots - reserved.length),
+        [...seeds, ...reserved],
+        cost,
+      );
+      const picked = [...reserved, ...rest.picked].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+      return {
+        picked,
+        report: unmetQuotas.length ? { ...rest.report, unmetQuotas } : rest.report,
+      };
+    };
+
+    const buildCandidatesForLane = (
+      lane: Instance<typeof ContextLane>,
+      query?: string,
+    ): { selected: SnapshotIn<typeof ContextItemRef>[]; report: SelectionReport } => {
+      const policy = lane.window.policy;
+      const includeKinds = policy.includeKinds;
+
+      const pinned = lane.pinned
+        .filter((p) => p.pinned)
+        .filter((p) => isSelectable(policy, p.kind, p.id))
+        .map((p) => ({
+          kind: p.kind,
+          id: p.id,
+          pinned: true,
+          score: self.scoreRef(policy, p.kind, p.id, true),
+        }));
+
+      const eligible: { kind: string; id: string }[] = [];
+
+      for (const kind of includeKinds) {
+        const ids = self.getAllIdsByKind(kind);
+        for (const id of ids) {
+          if (!isSelectable(policy, kind, id)) continue;
+
+          // tag gating per lane
+          const itemTags = self.getItemTags(kind, id);
+          if (!self.tagsMatchAny(itemTags, lane.includeTagsAny)) continue;
+          if (lane.tagFilter && !matchesTagFilter(itemTags, lane.tagFilter)) continue;
+
+          if (pinned.some((p) => p.kind === kind && p.id === id)) continue;
+
+          eligible.push({ kind, id });
+        }
+      }
+
+      const relevance =
+        query && eligible.length ? queryRelevanceFor(policy, eligible, query) : undefined;
+      const candidates: SnapshotIn<typeof ContextItemRef>[] = [];
+      for (const { kind, id } of eligible) {
+        const queryRelevance = relevance?.get(`${kind}:${id}`);
+        const score = self.scoreRef(policy, kind, id, false, queryRelevance);
+        if (score === -Infinity) continue;
+        candidates.push({ kind, id, score, pinned: false, queryRelevance });
+      }
+
+      const remainingSlots = Math.max(0, policy.maxItems - pinned.length);
+      const cost = makeTokenCost();
+      const top = pickWithQuotas(policy, candidates, remainingSlots, pinned, cost);
+      const selected = [...pinned, ...top.picked];
+
+      if (!policy.expandRelations.length) return { selected, report: top.report };
+
+      // relation expansion: neighbors of selected items compete for the remaining slots
+      const related: SnapshotIn<typeof ContextItemRef>[] = [];
+      for (const seed of selected) {
+        const seedScore = seed.pinned
+          ? self.scoreRef(policy, seed.kind, seed.id, false)
+          : (seed.score ?? 0);
+        for (const n of self.getNeighbors(seed, { type: policy.expandRelations.slice() })) {
+          if (!includeKinds.includes(n.kind)) continue;
+          if (!isSelectable(policy, n.kind, n.id)) continue;
+          if (pinned.some((p) => p.kind === n.kind && p.id === n.id)) continue;
+          if (self.scoreRef(policy, n.kind, n.id, false) === -Infinity) continue;
+          related.push({
+            kind: n.kind,
+            id: n.id,
+            score: seedScore * policy.wRelated,
+            pinned: false,
+          });
+        }
+      }
+      if (!related.length) return { selected, report: top.report };
+
+      const pool = uniqByKindIdKeepMaxScore([...candidates, ...related]);
+      const expanded = pickWithQuotas(policy, pool, remainingSlots, pinned, cost);
+      return { selected: [...pinned, ...expanded.picked], report: expanded.report };
+    };
+
+    const uniqByKindIdKeepMaxScore = (refs: SnapshotIn<typeof ContextItemRef>[]) => {
+      const map = new Map<string, SnapshotIn<typeof ContextItemRef>>();
+      for (const r of refs) {
+        const key = `${r.kind}:${r.id}`;
+        const existing = map.get(key);
+        if (!existing) map.set(key, r);
+        else {
+          // keep pinned OR higher score
+          const keep = existing.pinned
+            ? existing
+            : r.pinned
+              ? r
+              : (existing.score ?? 0) >= (r.score ?? 0)
+                ? existing
+                : r;
+          map.set(key, keep);
+        }
+      }
+      return Array.from(map.values());
+    };
+
+    // Use BERT tokenizer for accurate token counting
+    const approxTokens = (s: string) => countTokensSync(s);
+
+    const truncateToTokenBudget = (text: string, tokenBudget: number) => {
+      // cheap: trim chars to fit budget using approxTokens
+      if (approxTokens(text) <= tokenBudget) return text;
+      const maxChars = Math.max(0, tokenBudget * 4);
+      return (
+        text
+          .slice(0, maxChars)
+          .replace(/\s+\S*$/, "")
+          .trimEnd() + "…"
+      );
+    };
+
+    /**
+     * Applies `redactionRules` to text derived from items, collecting what was masked.
+     * One redactor per output so the report covers exactly that output.
+     */
+    const makeRedactor = () => {
+      const rules = self.redactionRules.map((rule) => ({
+        rule,
+        re: rule.pattern ? new RegExp(rule.pattern, redactionFlags(rule.flags)) : undefined,
+      }));
+      const hits = new Map<string, RedactionHit>();
+
+      /** Mask `text` that belongs to item `kind:id` */
+      const apply = (kind: string, id: string, text: string) => {
+        if (!rules.length) return text;
+        const labels = self.getSensitivity(kind, id);
+        let out = text;
+        for (const { rule, re } of rules) {
+          if (rule.labels.length && !rule.labels.some((l) => labels.includes(l))) continue;
+          const placeholder = rule.replacement ?? `[REDACTED:${rule.id}]`;
+          let count = 0;
+          if (re) {
+            out = out.replace(re, () => {
+              count++;
+              return placeholder;
+            });
+          } else if (out !== placeholder) {
+            out = placeholder;
+            count = 1;
+          }
+          if (!count) continue;
+          const key = `${kind}:${id}:${rule.id}`;
+          const hit = hits.get(key);
+          if (hit) hit.count += count;
+          else hits.set(key, { kind, id, ruleId: rule.id, count });
+        }
+        return out;
+      };
+
+      return {
+        apply,
+        summary: (kind: string, id: string) => {
+          const text = self.summarizeRef(kind, id);
+          return text === undefined ? undefined : apply(kind, id, text);
+        },
+        report: () => [...hits.values()],
+      };
+    };
+
+    /**
+     * An item's working-memory line and the built-in section bucket it goes in (none for
+     * custom kinds); undefined for items that render nothing.
+     */
+    const renderItem = (
+      r: SnapshotIn<typeof ContextItemRef>,
+      redactor: ReturnType<typeof makeRedactor>,
+    ): { bucket?: string; line: string } | undefined => {
+      const t = redactor.summary(r.kind, r.id);
+      if (!t) return undefined;
+      if (r.kind === "goal") {
+        // sub-goals carry their parents' titles as context
+        const path = self.getGoalAncestors(r.id).map((g) => redactor.apply("goal", g.id, g.title));
+        const rollup = self.getGoalRollup(r.id);
+        const g = self.goals.get(r.id);
+        const tracked =
+          !!rollup?.children.length || g?.progress !== undefined || !!g?.criteria.length;
+        const progress = rollup && tracked ? ` [${Math.round(rollup.progress)}%]` : "";
+        return { bucket: "goals", line: [...path, t].join(" › ") + progress };
+      }
+      if (r.kind === "constraint") return { bucket: "constraints", line: t };
+      if (r.kind === "decision") return { bucket: "decisions", line: t };
+      if (r.kind === "evidence") return { bucket: "evidence", line: t };
+      if (r.kind === "assumption") return { bucket: "assumptions", line: t };
+      if (r.kind === "question") {
+        const answer = self.questions.get(r.id)?.isResolved && self.questions.get(r.id)?.answer;
+        if (answer) {
+          return {
+            bucket: "resolvedQuestions",
+            line: `${t} → ${redactor.apply(r.kind, r.id, answer.summary)}`,
+          };
+        }
+        return { bucket: "questions", line: t };
+      }
+      return { line: t };
+    };
+
+    const makeWorkingMemory = (refs: SnapshotIn<typeof ContextItemRef>[], tokenBudget: number) => {
+      // deterministic, crisp, lane-agnostic “condensed note”
+      // prioritize pinned + high score; group by kind; then trim to budget.
+      const order = [...refs].sort((a, b) => {
+        const ap = a.pinned ? 1 : 0;
+        const bp = b.pinned ? 1 : 0;
+        if (bp !== ap) return bp - ap;
+        return (b.score ?? 0) - (a.score ?? 0);
+      });
+
+      const buckets: Record<string, string[]> = {
+        goals: [],
+        constraints: [],
+        decisions: [],
+        evidence: [],
+        assumptions: [],
+        questions: [],
+        resolvedQuestions: [],
+      };
+      const customBuckets = new Map<string, string[]>();
+      const redactor = makeRedactor();
+
+      for (const r of order) {
+        const rendered = renderItem(r, redactor);
+        if (!rendered) continue;
+        if (rendered.bucket) buckets[rendered.bucket]?.push(rendered.line);
+        else {
+          if (!customBuckets.has(r.kind)) customBuckets.set(r.kind, []);
+          customBuckets.get(r.kind)!.push(rendered.line);
+        }
+      }
+
+      const lines: string[] = [];
+      const add = (label: string, arr: string[]) => {
+        if (!arr.length) return;
+        lines.push(`${label}:`);
+        for (const s of arr) lines.push(`- ${s}`);
+        lines.push("");
+      };
+
+      add("Goals", buckets.goals ?? []);
+      add("Constraints", buckets.constraints ?? []);
+      add("Decisions", buckets.decisions ?? []);
+      add("Evidence", buckets.evidence ?? []);
+      add("Assumptions", buckets.assumptions ?? []);
+      add("Open questions", buckets.questions ?? []);
+      add("Resolved questions", buckets.resolvedQuestions ?? []);
+      add("Conflicts", self.getOpenConflictLines(refs, redactor.summary));
+      // custom kinds follow the built-ins, in registration order
+      for (const [kind, def] of knowledgeKindRegistry) {
+        add(def.sectionLabel, customBuckets.get(kind) ?? []);
+      }
+
+      const raw = lines.join("\n").trim();
+      return { text: truncateToTokenBudget(raw, tokenBudget), redactions: redactor.report() };
+    };
+
+    const archiveSelectedRefs = (
+      merged: SnapshotIn<typeof ContextItemRef>[],
+      workingText: string,
+    ) => {
+      const archiveId = `arch_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+      self.archive.push({
+        id: archiveId,
+        mergedSelected: merged,
+        workingMemoryText: workingText,
+        snapshot: getSnapshot(self),
+      });
+      return archiveId;
+    };
+
+    const archiveAndPruneRaw = (refs: SnapshotIn<typeof ContextItemRef>[]) => {
+      // optional: archive raw items by setting statuses to archived where applicable
+      for (const r of refs) {
+        if (r.kind === "goal") self.goals.get(r.id)?.setStatus("archived");
+        else if (r.kind === "constraint") self.constraints.get(r.id)?.setStatus("archived");
+        else if (r.kind === "assumption") self.assumptions.get(r.id)?.setStatus("archived");
+        else if (r.kind === "question") self.questions.get(r.id)?.setStatus("archived");
+        else if (r.kind === "decision") self.decisions.get(r.id)?.setStatus("archived");
+        // evidence: keep (usually you don't want to “archive” evidence out of existence)
+        else if (r.kind !== "evidence") {
+          // custom kinds: only items that carry a status field
+          const item = self.getCustomItem(r.kind, r.id);
+          if (item && "status" in item) {
+            self.customObjects.get(r.kind)!.set(r.id, { ...item, status: "archived" });
+          }
+        }
+      }
+    };
+
+    const linkRefs = (from: ItemRef, type: RelationType, to: ItemRef, note?: string) => {
+      const id = relationId(from, type, to);
+      const existing = self.relations.get(id);
+      if (existing) {
+        if (note !== undefined) existing.note = note;
+        touch();
+        return id;
+      }
+      self.relations.set(id, {
+        id,
+        type,
+        from: { kind: from.kind, id: from.id },
+        to: { kind: to.kind, id: to.id },
+        note,
+      });
+      touch();
+      emitEvent({
+        type: "relation:linked",
+        relationId: id,
+        relationType: type,
+        from: { kind: from.kind, id: from.id },
+        to: { kind: to.kind, id: to.id },
+      });
+      return id;
+    };
+
+    const unlinkRefs = (from: ItemRef, type: RelationType, to: ItemRef) => {
+      const id = relationId(from, type, to);
+      if (!self.relations.has(id)) return;
+      self.relations.delete(id);
+      touch();
+      emitEvent({
+        type: "relation:unlinked",
+        relationId: id,
+        relationType: type,
+        from: { kind: from.kind, id: from.id },
+        to: { kind: to.kind, id: to.id },
+      });
+    };
+
+    /**
+     * When a written decision declares `supersedes`, retire the decision it replaces
+     * and link the two. Runs after the decision's own upsert event.
+     */
+    const applySupersession = (decisionId: string) => {
+      const d = self.decisions.get(decisionId);
+      const oldId = d?.supersedes;
+      if (!d || !oldId || oldId === decisionId) return;
+      const old = self.decisions.get(oldId);
+      if (!old || old.supersededBy === decisionId) return;
+
+      const previousStatus = old.status;
+      old.markSuperseded(decisionId);
+      linkRefs({ kind: "decision", id: decisionId }, "supersedes", { kind: "decision", id: oldId });
+      emitEvent({
+        type: "decision:superseded",
+        decisionId: oldId,
+        supersededBy: decisionId,
+        previousStatus,
+      });
+    };
+
+    const isAssumptionEvidenceLink = (r: { type: string; from: ItemRef; to: ItemRef }) =>
+      (r.type === "supports" || r.type === "contradicts") &&
+      r.from.kind === "evidence" &&
+      r.to.kind === "assumption";
+
+    /**
+     * Recompute an assumption's confidence from its prior and the active evidence linked to
+     * it with `supports` / `contradicts`, then move it between active / validated / invalidated.
+     * Only net confirming evidence validates and only net refuting evidence invalidates. Paused,
+     * done and archived assumptions keep their status.
+     */
+    const reevaluateAssumption = (assumptionId: string) => {
+      const a = self.assumptions.get(assumptionId);
+      if (!a) return;
+
+      const evidence: AssumptionEvidence[] = [];
+      for (const r of self.getRelations(
+        { kind: "assumption", id: assumptionId },
+        { direction: "in" },
+      )) {
+        if (!isAssumptionEvidenceLink(r)) continue;
+        const e = self.evidence.get(r.from.id);
+        if (!e || e.status !== "active") continue;
+        evidence.push({
+          id: e.id,
+          direction: r.type === "supports" ? "confirms" : "refutes",
+          weight: e.weight,
+        });
+      }
+      if (evidence.length === 0 && a.priorConfidence === undefined) return;
+
+      if (a.priorConfidence === undefined) {
+        a.setPriorConfidence(
+          typeof a.confidence === "number" ? a.confidence : CONFIDENCE_LABEL_VALUE[a.confidence],
+        );
+      }
+      const policy = self.assumptionPolicy;
+      const rule = assumptionUpdateRules.get(policy.rule) ?? logOddsRule;
+      const confidence = Math.min(1, Math.max(0, rule(a.priorConfidence!, evidence)));
+
+      const previousConfidence = a.confidence;
+      if (previousConfidence !== confidence) {
+        a.setConfidence(confidence);
+        touch();
+        emitEvent({
+          type: "assumption:confidenceUpdated",
+          assumptionId,
+          previousConfidence,
+          confidence,
+          rule: policy.rule,
+          confirming: evidence.filter((e) => e.direction === "confirms").map((e) => e.id),
+          refuting: evidence.filter((e) => e.direction === "refutes").map((e) => e.id),
+        });
+      }
+
+      const previousStatus = a.status;
+      if (
+        previousStatus !== "active" &&
+        previousStatus !== "validated" &&
+        previousStatus !== "invalidated"
+      ) {
+        return;
+      }
+      // status follows the net evidence, so a low prior never gets invalidated by confirmations
+      const net = evidence.reduce(
+        (n, e) => n + (e.direction === "confirms" ? e.weight : -e.weight),
+        0,
+      );
+      const status: AssumptionStatus =
+        net > 0 && confidence >= policy.validateAt
+          ? "validated"
+          : net < 0 && confidence <= policy.invalidateAt
+            ? "invalidated"
+            : "active";
+      if (status !== previousStatus) {
+        a.setStatus(status);
+        touch();
+        emitEvent({
+          type: "assumption:statusChanged",
+          assumptionId,
+          previousStatus,
+          status,
+          confidence,
+        });
+      }
+    };
+
+    /** Reevaluate every assumption that evidence `evidenceId` is (or was) attached to. */
+    const reevaluateAssumptionsFor = (evidenceId: string, alsoIds: string[] = []) => {
+      const ids = new Set(alsoIds);
+      for (const r of self.getRelations(
+        { kind: "evidence", id: evidenceId },
+        { direction: "out" },
+      )) {
+        if (isAssumptionEvidenceLink(r)) ids.add(r.to.id);
+      }
+      for (const id of ids) reevaluateAssumption(id);
+    };
+
+    /** Active evidence and assumptions in the shape contradiction detectors expect */
+    const contradictionCandidates = (): ContradictionCandidate[] => [
+      ...[...self.evidence.values()]
+        .filter((e) => e.status === "active")
+        .map((e) => ({ kind: "evidence" as const, id: e.id, text: e.summary, tags: e.tags })),
+      ...[...self.assumptions.values()]
+        .filter((a) => self.isActive("assumption", a.id))
+        .map((a) => ({ kind: "assumption" as const, id: a.id, text: a.statement, tags: a.tags })),
+    ];
+
+    /**
+     * Run the policy's detectors over candidate pairs (only pairs involving `only`, if given).
+     * Records new conflicts and auto-resolves open ones that no longer hold.
+     * Returns the newly detected conflict IDs.
+     */
+    const detectContradictions = (only?: ItemRef) => {
+      const candidates = contradictionCandidates();
+      const detectors = self.contradictionPolicy.detectors
+        .map((name) => [name, contradictionDetectors.get(name)] as const)
+        .filter((d): d is readonly [string, ContradictionDetector] => !!d[1]);
+      const involves = (c: ItemRef) => !only || (c.kind === only.kind && c.id === only.id);
+
+      const found = new Map<string, { a: ItemRef; b: ItemRef; detector: string; reason: string }>();
+      const check = (a: ContradictionCandidate, b: ContradictionCandidate) => {
+        for (const [name, detect] of detectors) {
+          const reason = detect(a, b);
+          if (!reason) continue;
+          found.set(conflictId(a, b), {
+            a: { kind: a.kind, id: a.id },
+            b: { kind: b.kind, id: b.id },
+            detector: name,
+            reason,
+          });
+          return;
+        }
+      };
+      if (only) {
+        // one item changed: only its pairs can change, so compare it against the rest
+        const t = candidates.findIndex(involves);
+        for (let i = 0; t >= 0 && i < candidates.length; i++) {
+          if (i < t) check(candidates[i]!, candidates[t]!);
+          else if (i > t) check(candidates[t]!, candidates[i]!);
+        }
+      } else {
+        for (let i = 0; i < candidates.length; i++) {
+          for (let j = i + 1; j < candidates.length; j++) check(candidates[i]!, candidates[j]!);
+        }
+      }
+
+      const detected: string[] = [];
+      for (const [id, c] of found) {
+        const existing = self.conflicts.get(id);
+        if (existing && (existing.status === "open" || !existing.resolvedAutomatically)) continue;
+        // new, or resolved automatically and contradicting again: (re-)open
+        self.conflicts.set(id, { id, ...c });
+        detected.push(id);
+      }
+      const stale = [...self.conflicts.values()].filter(
+        (c) => c.status === "open" && !found.has(c.id) && (!only || involves(c.a) || involves(c.b)),
+      );
+      for (const c of stale) {
+        c.status = "resolved";
+        c.resolvedAutomatically = true;
+      }
+      if (detected.length || stale.length) touch();
+
+      for (const id of detected) {
+        const c = found.get(id)!;
+        emitEvent({ type: "conflict:detected", conflictId: id, ...c });
+      }
+      for (const c of stale) {
+        emitEvent({ type: "conflict:resolved", conflictId: c.id, automatic: true });
+      }
+      return detected;
+    };
+
+    /** Built-in kind of a knowledge object node living directly in one of the context maps */
+    const kindOfNode = (node: unknown): BuiltInKnowledgeObjectKind | undefined => {
+      if (!isStateTreeNode(node) || !hasParent(node, 2) || getParent(node, 2) !== self) return;
+      const map = getParent(node);
+      if (map === self.goals) return "goal";
+      if (map === self.constraints) return "constraint";
+      if (map === self.assumptions) return "assumption";
+      if (map === self.evidence) return "evidence";
+      if (map === self.questions) return "question";
+      if (map === self.decisions) return "decision";
+      return undefined;
+    };
+
+    return {
+      afterCreate() {
+        // Item-level actions (e.g. `assumption.updateStatement()`) bypass the context's
+        // upserts, so revisions for them are captured here.
+        addDisposer(
+          self,
+          addMiddleware(self, (call, next) => {
+            const kind =
+              call.type === "action" && !call.name.startsWith("@") && kindOfNode(call.context);
+            if (!kind || !self.revisionPolicy.enabled) return next(call);
+            const before = itemSnapshot(call.context);
+            if (ownRevisions.has(`${kind}:${before.id}`)) return next(call);
+            const result = next(call);
+            // the item's action cannot write to the context; go through a context action
+            const actions = self as typeof self & {
+              _recordRevision: typeof recordRevision;
+            };
+            actions._recordRevision(kind, before.id as string, before, itemSnapshot(call.context));
+            return result;
+          }),
+        );
+      },
+
+      /** ---- Revision History ---- */
+
+      /**
+       * Append a revision for an item changed outside the context's own actions.
+       * @internal Called by the revision middleware; do not call directly.
+       */
+      _recordRevision(
+        kind: KnowledgeObjectKind,
+        id: string,
+        before: Record<string, unknown> | undefined,
+        after: Record<string, unknown> | undefined,
+        by?: string,
+      ) {
+        recordRevision(kind, id, before, after, by);
+      },
+
+      setRevisionPolicy(patch: Partial<SnapshotIn<typeof RevisionPolicy>>) {
+        Object.assign(self.revisionPolicy, patch);
+        touch();
+      },
+
+      /** ---- Batches ---- */
+
+      /**
+       * Run `fn` as one transaction. If it throws (e.g. an upsert fails validation), the
+       * whole context is restored to its state before the batch and the error is rethrown.
+       * On success `updatedAt` is touched once and the upserts inside are reported as a single
+       * `knowledgeObjects:batchUpserted` event; other events are delivered after the commit.
+       * Nested batches join the outermost one.
+       *
+       * @example
+       * ```typescript
+       * ctx.batch(() => {
+       *     ctx.upsertGoal({ id: "g1", title: "Restore service" });
+       *     ctx.upsertEvidence({ id: "e1", summary: "Pool exhausted", severity: "critical" });
+       * });
+       * ```
+       */
+      batch<T>(fn: () => T): T {
+        if (self.batchDepth > 0) return fn();
+
+        const before = getSnapshot(self);
+        self.batchDepth = 1;
+        self.pendingEvents = [];
+        let result: T;
+        try {
+          result = fn();
+        } catch (e) {
+          self.batchDepth = 0;
+          self.pendingEvents = [];
+          applySnapshot(self, before);
+          throw e;
+        }
+        const events = self.pendingEvents;
+        self.batchDepth = 0;
+        self.pendingEvents = [];
+        touch();
+        flushBatchEvents(events);
+        return result;
+      },
+
+      /**
+       * Upsert many items of any kinds atomically (see `batch()`).
+       */
+      upsertMany(
+        items: Array<{ kind: KnowledgeObjectKind; item: { id: string } & Record<string, unknown> }>,
+        meta?: ChangeMeta,
+      ) {
+        this.batch(() => {
+          for (const { kind, item } of items) this.upsertKnowledgeObject(kind, item, meta);
+        });
+      },
+
+      /** ---- Upserts ---- */
+      setStatus(status: Instance<typeof Status>) {
+        self.status = status;
+        touch();
+      },
+      upsertGoal(goal: SnapshotIn<typeof Goal>, meta?: ChangeMeta) {
+        upsertMapItem(self.goals, goal, "goal", meta);
+      },
+      upsertConstraint(c: SnapshotIn<typeof Constraint>, meta?: ChangeMeta) {
+        upsertMapItem(self.constraints, c, "constraint", meta);
+      },
+      upsertAssumption(a: SnapshotIn<typeof Assumption>, meta?: ChangeMeta) {
+        upsertMapItem(self.assumptions, a, "assumption", meta);
+      },
+      upsertEvidence(e: SnapshotIn<typeof Evidence>, meta?: ChangeMeta) {
+        upsertMapItem(self.evidence, e, "evidence", meta);
+      },
+      upsertQuestion(q: SnapshotIn<typeof OpenQuestion>, meta?: ChangeMeta) {
+        upsertMapItem(self.questions, q, "question", meta);
+      },
+      upsertDecision(d: SnapshotIn<typeof Decision>, meta?: ChangeMeta) {
+        upsertMapItem(self.decisions, d, "decision", meta);
+      },
+
+      /**
+       * Upsert an item of any kind. Custom kinds are validated and defaulted by their
+       * registered model; an invalid item throws like the built-in upserts do.
+       *
+       * @throws Error if `kind` is not a built-in or registered kind
+       */
+      upsertKnowledgeObject(
+        kind: KnowledgeObjectKind,
+        item: { id: string } & Record<string, unknown>,
+        meta?: ChangeMeta,
+      ) {
+        if (kind === "goal") return upsertMapItem(self.goals, item as never, kind, meta);
+        if (kind === "constraint")
+          return upsertMapItem(self.constraints, item as never, kind, meta);
+        if (kind === "assumption")
+          return upsertMapItem(self.assumptions, item as never, kind, meta);
+        if (kind === "evidence") return upsertMapItem(self.evidence, item as never, kind, meta);
+        if (kind === "question") return upsertMapItem(self.questions, item as never, kind, meta);
+        if (kind === "decision") return upsertMapItem(self.decisions, item as never, kind, meta);
+
+        const def = knowledgeKindRegistry.get(kind);
+        if (!def) throw new Error(`Unknown knowledge object kind "${kind}"`);
+        const normalized = getSnapshot(def.model.create(item)) as { id: string };
+        if (!self.customObjects.has(kind)) self.customObjects.set(kind, {});
+        upsertMapItem(self.customObjects.get(kind)!, normalized, kind, meta);
+      },
+
+      /**
+       * Merge `patch` into an existing item instead of replacing it.
+       * Omitted fields keep their values, `id` and `createdAt` never change, and
+       * `updatedAt` is bumped. Emits `knowledgeObject:upserted` with `changedFields`.
+       * Returns false if the item does not exist.
+       */
+      patchKnowledgeObject(
+        kind: KnowledgeObjectKind,
+        id: string,
+        patch: Record<string, unknown>,
+        meta?: ChangeMeta,
+      ) {
+        const map = knowledgeMapFor(kind);
+        const stored = map?.get(id);
+        if (!map || !stored) return false;
+        const before = itemSnapshot(stored);
+
+        const next: Record<string, unknown> = { ...before, ...patch, id };
+        // rule-assigned tags are recomputed below, never carried over
+        if (Array.isArray(next.tags)) next.tags = (next.tags as RuleTag[]).filter((t) => !t.rule);
+        if ("createdAt" in before) next.createdAt = before.createdAt;
+        if ("updatedAt" in before) next.updatedAt = new Date().toISOString();
+
+        if (isStateTreeNode(stored)) {
+          applySnapshot(stored, next);
+        } else {
+          const def = knowledgeKindRegistry.get(kind)!;
+          self.customObjects.get(kind)!.set(id, getSnapshot(def.model.create(next)));
+        }
+        const statusChanged =
+          kind === "evidence"
+            ? trackEvidenceStatus(
+                id,
+                before.status as EvidenceStatus,
+                (patch as { statusReason?: string }).statusReason,
+              )
+            : undefined;
+        if (self.taggingRules.length) applyTaggingRules(kind, id);
+        touch();
+
+        emitUpserted(kind, id, before, itemSnapshot(map.get(id)), meta?.by);
+        if (statusChanged) emitEvent(statusChanged);
+        if (kind === "decision") applySupersession(id);
+        if (kind === "evidence") reevaluateAssumptionsFor(id);
+        if ((kind === "evidence" || kind === "assumption") && self.contradictionPolicy.autoDetect) {
+          detectContradictions({ kind, id });
+        }
+        return true;
+      },
+      patchGoal(id: string, patch: KnowledgeObjectPatch<typeof Goal>, meta?: ChangeMeta) {
+        return this.patchKnowledgeObject("goal", id, patch, meta);
+      },
+      patchConstraint(
+        id: string,
+        patch: KnowledgeObjectPatch<typeof Constraint>,
+        meta?: ChangeMeta,
+      ) {
+        return this.patchKnowledgeObject("constraint", id, patch, meta);
+      },
+      patchAssumption(
+        id: string,
+        patch: KnowledgeObjectPatch<typeof Assumption>,
+        meta?: ChangeMeta,
+      ) {
+        return this.patchKnowledgeObject("assumption", id, patch, meta);
+      },
+      patchEvidence(id: string, patch: KnowledgeObjectPatch<typeof Evidence>, meta?: ChangeMeta) {
+        return this.patchKnowledgeObject("evidence", id, patch, meta);
+      },
+      patchQuestion(
+        id: string,
+        patch: KnowledgeObjectPatch<typeof OpenQuestion>,
+        meta?: ChangeMeta,
+      ) {
+        return this.patchKnowledgeObject("question", id, patch, meta);
+      },
+      patchDecision(id: string, patch: KnowledgeObjectPatch<typeof Decision>, meta?: ChangeMeta) {
+        return this.patchKnowledgeObject("decision", id, patch, meta);
+      },
+
+      /**
+       * Validating upsert for untrusted input (API requests, LLM output).
+       * Returns `{ ok: false, errors }` with field paths instead of throwing; with
+       * `coerce: true`, near-miss scalars such as "High" or "0.8" are repaired first.
+       *
+       * @example
+       * ```typescript
+       * const res = ctx.tryUpsertEvidence(body, { coerce: true });
+       * if (!res.ok) return Response.json({ errors: res.errors }, { status: 400 });
+       * ```
+       */
+      tryUpsertKnowledgeObject(
+        kind: KnowledgeObjectKind,
+        input: unknown,
+        opts?: { coerce?: boolean } & ChangeMeta,
+      ): TryUpsertResult {
+        const model = modelForKind(kind);
+        if (!model) {
+          return {
+            ok: false,
+            kind,
+            errors: [{ path: "", message: `unknown knowledge object kind "${kind}"`, value: kind }],
+          };
+        }
+        if (input === null || typeof input !== "object" || Array.isArray(input)) {
+          return {
+            ok: false,
+            kind,
+            errors: [{ path: "", message: "item: expected an object", value: input }],
+          };
+        }
+
+        const { output, coerced } = opts?.coerce
+          ? coerceTopLevel(model, input as Record<string, unknown>)
+          : { output: input as Record<string, unknown>, coerced: [] };
+        const errors = validateAgainst(model, output);
+        if (errors.length) return { ok: false, kind, errors };
+
+        const item = output as { id: string } & Record<string, unknown>;
+        const isNew = !knowledgeMapFor(kind)?.has(item.id);
+        this.upsertKnowledgeObject(kind, item, opts);
+        return { ok: true, kind, id: item.id, isNew, coerced };
+      },
+      tryUpsertGoal(input: unknown, opts?: { coerce?: boolean } & ChangeMeta) {
+        return this.tryUpsertKnowledgeObject("goal", input, opts);
+      },
+      tryUpsertConstraint(input: unknown, opts?: { coerce?: boolean } & ChangeMeta) {
+        return this.tryUpsertKnowledgeObject("constraint", input, opts);
+      },
+      tryUpsertAssumption(input: unknown, opts?: { coerce?: boolean } & ChangeMeta) {
+        return this.tryUpsertKnowledgeObject("assumption", input, opts);
+      },
+      tryUpsertEvidence(input: unknown, opts?: { coerce?: boolean } & ChangeMeta) {
+        return this.tryUpsertKnowledgeObject("evidence", input, opts);
+      },
+      tryUpsertQuestion(input: unknown, opts?: { coerce?: boolean } & ChangeMeta) {
+        return this.tryUpsertKnowledgeObject("question", input, opts);
+      },
+      tryUpsertDecision(input: unknown, opts?: { coerce?: boolean } & ChangeMeta) {
+        return this.tryUpsertKnowledgeObject("decision", input, opts);
+      },
+
+      /**
+       * Move evidence through its lifecycle (active, retracted, superseded, archived).
+       * Non-active evidence drops out of lane selection unless the lane's policy sets
+       * `includeInactiveEvidence`.
+       */
+      setEvidenceStatus(id: string, status: EvidenceStatus, reason?: string) {
+        const e = self.evidence.get(id);
+        if (!e) return;
+        const oldStatus = e.status;
+        if (oldStatus === status) return;
+        e.setStatus(status, reason);
+        touch();
+        emitEvent({
+          type: "evidence:statusChanged",
+          evidenceId: id,
+          oldStatus,
+          newStatus: status,
+          reason,
+        });
+        reevaluateAssumptionsFor(id);
+        if (self.contradictionPolicy.autoDetect) detectContradictions({ kind: "evidence", id });
       },
-    };
-  })
-  .actions((self) => {
-    const touch = () => {
-      self.updatedAt = new Date().toISOString();
-    };
 
-    type HookEventWithoutMeta<T extends HookEvent> = Omit<T, "timestamp" | "contextId">;
-    type AnyHookEventWithoutMeta =
-      | HookEventWithoutMeta<KnowledgeObjectUpsertedEvent>
-      | HookEventWithoutMeta<LaneCreatedEvent>
-      | HookEventWithoutMeta<LaneRemovedEvent>
-      | HookEventWithoutMeta<LaneStatusChangedEvent>
-      | HookEventWithoutMeta<LanePinChangedEvent>
-      | HookEventWithoutMeta<LaneRefreshedEvent>
-      | HookEventWithoutMeta<LanesRefreshedAllEvent>
-      | HookEventWithoutMeta<ActiveWindowMergedEvent>
-      | HookEventWithoutMeta<WorkingMemorySynthesizedEvent>
-      | HookEventWithoutMeta<ArchiveCreatedEvent>
-      | HookEventWithoutMeta<EvidenceIngestedEvent>;
+      /**
+       * Resolve a question: store the answer, mark the question "done" and link
+       * `by --answers--> question`. Answering again replaces the previous answer.
+       * Returns false if the question or the answering item does not exist.
+       */
+      answerQuestion(questionId: string, answer: { by: ItemRef; summary: string }) {
+        const q = self.questions.get(questionId);
+        if (!q || !knowledgeMapFor(answer.by.kind)?.has(answer.by.id)) return false;
+        const previous = q.answer ? { kind: q.answer.by.kind, id: q.answer.by.id } : undefined;
+        const questionRef = { kind: "question", id: questionId };
+        if (previous && (previous.kind !== answer.by.kind || previous.id !== answer.by.id)) {
+          unlinkRefs(previous, "answers", questionRef);
+        }
+        q.setAnswer({ by: { kind: answer.by.kind, id: answer.by.id }, summary: answer.summary });
+        linkRefs(answer.by, "answers", questionRef);
+        touch();
+        emitEvent({
+          type: "question:answered",
+          questionId,
+          by: { kind: answer.by.kind, id: answer.by.id },
+          summary: answer.summary,
+          reanswered: !!previous,
+        });
+        return true;
+      },
 
-    const emitEvent = (event: AnyHookEventWithoutMeta) => {
-      self.hooks._emit({
-        ...event,
-        timestamp: new Date().toISOString(),
-        contextId: self.id,
-      } as HookEvent);
-    };
+      /**
+       * Check a proposed decision against the predicates of all active constraints, without
+       * storing it. Emits `constraint:violated` per violated constraint.
+       * Callers can refuse to `upsertDecision()` when `ok` is false (a hard constraint failed).
+       */
+      checkDecision(decision: SnapshotIn<typeof Decision>): DecisionCheckResult {
+        const violations: ConstraintViolation[] = [];
+        for (const c of self.constraints.values()) {
+          if (c.status !== "active") continue;
+          const messages: string[] = [];
+          for (const p of c.predicates) {
+            const message = constraintChecks.get(p.check)?.(decision, p.params ?? {});
+            if (message) messages.push(message);
+          }
+          if (!messages.length) continue;
+          violations.push({
+            constraintId: c.id,
+            statement: c.statement,
+            strength: c.strength,
+            messages,
+          });
+          emitEvent({
+            type: "constraint:violated",
+            constraintId: c.id,
+            strength: c.strength,
+            decisionId: decision.id,
+            messages,
+          });
+        }
+        return { ok: !violations.some((v) => v.strength === "hard"), violations };
+      },
 
-    const upsertMapItem = <T extends { id: string }>(
-      map: {
-        set: (key: string, value: T) => void;
-        has: (key: string) => boolean;
-        get: (key: string) => T | undefined;
+      /**
+       * Replace decision `oldId` with `next`: upserts `next` with `supersedes: oldId`, which
+       * marks the old decision "superseded" and links `next --supersedes--> old`. If `oldId`
+       * is already superseded, `next` replaces the current head of its chain instead.
+       * Returns false if `oldId` does not exist.
+       */
+      supersedeDecision(oldId: string, next: SnapshotIn<typeof Decision>, meta?: ChangeMeta) {
+        if (!self.decisions.has(oldId)) return false;
+        upsertMapItem(self.decisions, { ...next, supersedes: oldId }, "decision", meta);
+        return true;
       },
-      item: T,
-      kind: KnowledgeObjectKind,
-    ) => {
-      const isNew = !map.has(item.id);
-      map.set(item.id, item);
-      touch();
-      // Emit after state change
-      const storedItem = map.get(item.id);
-      emitEvent({
-        type: "knowledgeObject:upserted",
-        kind,
-        id: item.id,
-        item: storedItem ? { ...getSnapshot(storedItem as never) } : { ...item },
-        isNew,
-      });
-    };
 
-    const buildCandidatesForLane = (lane: Instance<typeof ContextLane>) => {
-      const policy = lane.window.policy;
-      const includeKinds = policy.includeKinds;
+      /**
+       * Delete a knowledge object and everything that points at it:
+       * lane pins, lane and active window selections, and relations. Open conflicts
+       * involving it are resolved.
+       * With `tombstone: true` a snapshot of the item is kept in `tombstones`.
+       * Returns false if the item did not exist.
+       */
+      removeKnowledgeObject(
+        kind: KnowledgeObjectKind,
+        id: string,
+        opts?: { tombstone?: boolean; reason?: string } & ChangeMeta,
+      ) {
+        const map = knowledgeMapFor(kind);
+        const stored = map?.get(id);
+        if (!map || !stored) return false;
+        const item = itemSnapshot(stored);
 
-      const pinned = lane.pinned
-        .filter((p) => p.pinned)
-        .filter((p) => self.isActive(p.kind, p.id) || p.kind === "evidence")
-        .map((p) => ({
-          kind: p.kind,
-          id: p.id,
-          pinned: true,
-          score: self.scoreRef(policy, p.kind, p.id, true),
+        const lanesCleaned: string[] = [];
+        for (const lane of self.lanes.values()) {
+          const droppedPin = lane.dropPin(kind, id);
+          const droppedSel = lane.window.removeRef(kind, id);
+          if (droppedPin || droppedSel) lanesCleaned.push(lane.id);
+        }
+        self.activeWindow.removeRef(kind, id);
+
+        const ref = { kind, id };
+        const dropped = self.getRelations(ref).map((r) => ({
+          relationId: r.id,
+          relationType: r.type,
+          from: { kind: r.from.kind, id: r.from.id },
+          to: { kind: r.to.kind, id: r.to.id },
         }));
+        for (const r of dropped) self.relations.delete(r.relationId);
+        const conflictsResolved = self.getOpenConflicts([ref]).map((c) => {
+          c.status = "resolved";
+          c.resolvedAutomatically = true;
+          return c.id;
+        });
 
-      const candidates: SnapshotIn<typeof ContextItemRef>[] = [];
-
-      for (const kind of includeKinds) {
-        const ids = self.getAllIdsByKind(kind);
-        for (const id of ids) {
-          if (!self.isActive(kind, id) && kind !== "evidence") continue;
-
-          // tag gating per lane
-          const itemTags = self.getItemTags(kind, id);
-          if (!self.tagsMatchAny(itemTags, lane.includeTagsAny)) continue;
-
-          if (pinned.some((p) => p.kind === kind && p.id === id)) continue;
+        map.delete(id);
+        recordRevision(kind, id, item, undefined, opts?.by);
 
-          const score = self.scoreRef(policy, kind, id, false);
-          if (score === -Infinity) continue;
-          candidates.push({ kind, id, score, pinned: false });
+        const tombstoned = opts?.tombstone ?? false;
+        if (tombstoned) {
+          self.tombstones.push({ kind, id, reason: opts?.reason, item });
         }
-      }
-
-      candidates.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+        touch();
 
-      const remainingSlots = Math.max(0, policy.maxItems - pinned.length);
-      const selected = [...pinned, ...candidates.slice(0, remainingSlots)];
+        for (const r of dropped) emitEvent({ type: "relation:unlinked", ...r });
+        for (const conflictId of conflictsResolved) {
+          emitEvent({ type: "conflict:resolved", conflictId, automatic: true });
+        }
+        emitEvent({
+          type: "knowledgeObject:removed",
+          kind,
+          id,
+          item,
+          lanesCleaned,
+          relationsRemoved: dropped.length,
+          tombstoned,
+        });
+        if (kind === "evidence") {
+          reevaluateAssumptionsFor(
+            id,
+            dropped
+              .filter((r) =>
+                isAssumptionEvidenceLink({ type: r.relationType, from: r.from, to: r.to }),
+              )
+              .map((r) => r.to.id),
+          );
+        }
+        return true;
+      },
 
-      return selected;
-    };
+      /** ---- Relations ---- */
 
-    const uniqByKindIdKeepMaxScore = (refs: SnapshotIn<typeof ContextItemRef>[]) => {
-      const map = new Map<string, SnapshotIn<typeof ContextItemRef>>();
-      for (const r of refs) {
-        const key = `${r.kind}:${r.id}`;
-        const existing = map.get(key);
-        if (!existing) map.set(key, r);
-        else {
-          // keep pinned OR higher score
-          const keep = existing.pinned
-            ? existing
-            : r.pinned
-              ? r
-              : (existing.score ?? 0) >= (r.score ?? 0)
-                ? existing
-                : r;
-          map.set(key, keep);
-        }
-      }
-      return Array.from(map.values());
-    };
+      /**
+       * Add a typed edge `from --type--> to`. Linking an existing edge updates its note only.
+       * Both endpoints are stored as plain refs; they may point at items that do not exist yet.
+       */
+      link(from: ItemRef, type: RelationType, to: ItemRef, opts?: { note?: string }) {
+        const id = linkRefs(from, type, to, opts?.note);
+        if (isAssumptionEvidenceLink({ type, from, to })) reevaluateAssumption(to.id);
+        return id;
+      },
 
-    // Use BERT tokenizer for accurate token counting
-    const approxTokens = (s: string) => countTokensSync(s);
+      /** Remove the edge `from --type--> to` if present. */
+      unlink(from: ItemRef, type: RelationType, to: ItemRef) {
+        unlinkRefs(from, type, to);
+        if (isAssumptionEvidenceLink({ type, from, to })) reevaluateAssumption(to.id);
+      },
 
-    const truncateToTokenBudget = (text: string, tokenBudget: number) => {
-      // cheap: trim chars to fit budget using approxTokens
-      if (approxTokens(text) <= tokenBudget) return text;
-      const maxChars = Math.max(0, tokenBudget * 4);
-      return (
-        text
-          .slice(0, maxChars)
-          .replace(/\s+\S*$/, "")
-          .trimEnd() + "…"
-      );
-    };
+      /** ---- Assumption Evidence ---- */
 
-    const makeWorkingMemory = (refs: SnapshotIn<typeof ContextItemRef>[], tokenBudget: number) => {
-      // deterministic, crisp, lane-agnostic “condensed note”
-      // prioritize pinned + high score; group by kind; then trim to budget.
-      const order = [...refs].sort((a, b) => {
-        const ap = a.pinned ? 1 : 0;
-        const bp = b.pinned ? 1 : 0;
-        if (bp !== ap) return bp - ap;
-        return (b.score ?? 0) - (a.score ?? 0);
-      });
+      /**
+       * Attach evidence to an assumption as confirming (`evidence --supports--> assumption`) or
+       * refuting (`--contradicts-->`), replacing any link in the other direction, then
+       * reevaluate the assumption under `assumptionPolicy`.
+       * Returns false if either item does not exist.
+       */
+      attachEvidence(assumptionId: string, evidenceId: string, direction: "confirms" | "refutes") {
+        if (!self.assumptions.has(assumptionId) || !self.evidence.has(evidenceId)) return false;
+        const from = { kind: "evidence", id: evidenceId };
+        const to = { kind: "assumption", id: assumptionId };
+        unlinkRefs(from, direction === "confirms" ? "contradicts" : "supports", to);
+        linkRefs(from, direction === "confirms" ? "supports" : "contradicts", to);
+        reevaluateAssumption(assumptionId);
+        return true;
+      },
 
-      const buckets: Record<string, string[]> = {
-        goals: [],
-        constraints: [],
-        decisions: [],
-        evidence: [],
-        assumptions: [],
-        questions: [],
-      };
+      /** Detach evidence from an assumption (either direction) and reevaluate it. */
+      detachEvidence(assumptionId: string, evidenceId: string) {
+        const from = { kind: "evidence", id: evidenceId };
+        const to = { kind: "assumption", id: assumptionId };
+        unlinkRefs(from, "supports", to);
+        unlinkRefs(from, "contradicts", to);
+        reevaluateAssumption(assumptionId);
+      },
 
-      for (const r of order) {
-        const t = self.summarizeRef(r.kind, r.id);
-        if (!t) continue;
-        if (r.kind === "goal") buckets.goals?.push(t);
-        else if (r.kind === "constraint") buckets.constraints?.push(t);
-        else if (r.kind === "decision") buckets.decisions?.push(t);
-        else if (r.kind === "evidence") buckets.evidence?.push(t);
-        else if (r.kind === "assumption") buckets.assumptions?.push(t);
-        else if (r.kind === "question") buckets.questions?.push(t);
-      }
+      /**
+       * Recompute an assumption from its attached evidence. Useful after changing
+       * `assumptionPolicy`; evidence changes trigger this automatically.
+       */
+      reevaluateAssumption(assumptionId: string) {
+        reevaluateAssumption(assumptionId);
+      },
 
-      const lines: string[] = [];
-      const add = (label: string, arr: string[]) => {
-        if (!arr.length) return;
-        lines.push(`${label}:`);
-        for (const s of arr) lines.push(`- ${s}`);
-        lines.push("");
-      };
+      /**
+       * Set (or with `undefined`, clear) the decay policy for a kind. Decay is applied when
+       * scoring, so it takes effect on the next selection refresh.
+       */
+      setDecayPolicy(
+        kind: KnowledgeObjectKind,
+        policy: SnapshotIn<typeof DecayPolicy> | undefined,
+      ) {
+        if (policy) self.decayPolicies.set(kind, policy);
+        else self.decayPolicies.delete(kind);
+        touch();
+      },
 
-      add("Goals", buckets.goals ?? []);
-      add("Constraints", buckets.constraints ?? []);
-      add("Decisions", buckets.decisions ?? []);
-      add("Evidence", buckets.evidence ?? []);
-      add("Assumptions", buckets.assumptions ?? []);
-      add("Open questions", buckets.questions ?? []);
+      /** ---- Tagging Rules ---- */
 
-      const raw = lines.join("\n").trim();
-      return truncateToTokenBudget(raw, tokenBudget);
-    };
+      /**
+       * Add a tagging rule (replacing any rule with the same id) and re-tag existing items.
+       * @throws Error if `pattern` is not a valid regular expression
+       */
+      addTaggingRule(rule: SnapshotIn<typeof TaggingRule>) {
+        if (rule.pattern !== undefined) new RegExp(rule.pattern, rule.flags ?? "i");
+        const index = self.taggingRules.findIndex((r) => r.id === rule.id);
+        if (index >= 0) self.taggingRules.splice(index, 1, rule);
+        else self.taggingRules.push(rule);
+        touch();
+        this.retagAll();
+      },
 
-    const archiveSelectedRefs = (
-      merged: SnapshotIn<typeof ContextItemRef>[],
-      workingText: string,
-    ) => {
-      const archiveId = `arch_${Date.now()}_${Math.random().toString(16).slice(2)}`;
-      self.archive.push({
-        id: archiveId,
-        mergedSelected: merged,
-        workingMemoryText: workingText,
-        snapshot: getSnapshot(self),
-      });
-      return archiveId;
-    };
+      /** Remove a tagging rule and the tags it assigned. Returns false if there is none. */
+      removeTaggingRule(id: string) {
+        const index = self.taggingRules.findIndex((r) => r.id === id);
+        if (index < 0) return false;
+        self.taggingRules.splice(index, 1);
+        touch();
+        this.retagAll();
+        return true;
+      },
 
-    const archiveAndPruneRaw = (refs: SnapshotIn<typeof ContextItemRef>[]) => {
-      // optional: archive raw items by setting statuses to archived where applicable
-      for (const r of refs) {
-        if (r.kind === "goal") self.goals.get(r.id)?.setStatus("archived");
-        else if (r.kind === "constraint") self.constraints.get(r.id)?.setStatus("archived");
-        else if (r.kind === "assumption") self.assumptions.get(r.id)?.setStatus("archived");
-        else if (r.kind === "question") self.questions.get(r.id)?.setStatus("archived");
-        else if (r.kind === "decision") self.decisions.get(r.id)?.setStatus("archived");
-        // evidence: keep (usually you don't want to “archive” evidence out of existence)
-      }
-    };
+      /**
+       * Re-evaluate tagging rules for every item. Emits one `tags:reevaluated` event listing
+       * the items whose rule-assigned tags changed, unless none did. Returns that list.
+       */
+      retagAll() {
+        const changes: TagsReevaluatedEvent["changes"] = [];
+        for (const kind of listKnowledgeObjectKinds()) {
+          for (const id of self.getAllIdsByKind(kind)) {
+            const diff = applyTaggingRules(kind, id);
+            if (!diff) continue;
+            const plain = (t: RuleTag) => ({ key: t.key, value: t.value, rule: t.rule! });
+            changes.push({
+              kind,
+              id,
+              added: diff.added.map(plain),
+              removed: diff.removed.map(plain),
+            });
+          }
+        }
+        if (!changes.length) return changes;
+        touch();
+        emitEvent({ type: "tags:reevaluated", changes });
+        return changes;
+      },
 
-    return {
-      /** ---- Upserts ---- */
-      setStatus(status: Instance<typeof Status>) {
-        self.status = status;
+      /**
+       * Add a redaction rule, replacing any rule with the same id. Applies from the next
+       * synthesis or payload build. Returns false, adding nothing, if `pattern` does not
+       * compile with `flags`.
+       * @throws Error if the rule has neither `pattern` nor `labels`
+       */
+      addRedactionRule(rule: SnapshotIn<typeof RedactionRule>) {
+        if (!rule.pattern && !rule.labels?.length) {
+          throw new Error(`Redaction rule "${rule.id}" needs a pattern or labels`);
+        }
+        if (!isValidRedactionPattern(rule)) return false;
+        const index = self.redactionRules.findIndex((r) => r.id === rule.id);
+        if (index >= 0) self.redactionRules.splice(index, 1, rule);
+        else self.redactionRules.push(rule);
         touch();
+        return true;
       },
-      upsertGoal(goal: SnapshotIn<typeof Goal>) {
-        upsertMapItem(self.goals, goal, "goal");
+
+      removeRedactionRule(id: string) {
+        const index = self.redactionRules.findIndex((r) => r.id === id);
+        if (index < 0) return false;
+        self.redactionRules.splice(index, 1);
+        touch();
+        return true;
       },
-      upsertConstraint(c: SnapshotIn<typeof Constraint>) {
-        upsertMapItem(self.constraints, c, "constraint");
+
+      setDedupPolicy(patch: Partial<SnapshotIn<typeof DedupPolicy>>) {
+        Object.assign(self.dedupPolicy, patch);
+        touch();
       },
-      upsertAssumption(a: SnapshotIn<typeof Assumption>) {
-        upsertMapItem(self.assumptions, a, "assumption");
+
+      /** ---- Contradictions ---- */
+
+      /**
+       * Check all active evidence and assumptions for contradictions. New conflicts are
+       * recorded and emit `conflict:detected`; open conflicts that no longer hold are
+       * resolved automatically, and re-open (emitting `conflict:detected` again) if the pair
+       * contradicts later. Returns the IDs of newly detected or re-opened conflicts.
+       */
+      detectContradictions() {
+        return detectContradictions();
       },
-      upsertEvidence(e: SnapshotIn<typeof Evidence>) {
-        upsertMapItem(self.evidence, e, "evidence");
+
+      /** Mark a conflict resolved. Returns false if it does not exist or is already resolved. */
+      resolveConflict(id: string, resolution?: string) {
+        const c = self.conflicts.get(id);
+        if (!c || c.status === "resolved") return false;
+        c.status = "resolved";
+        c.resolution = resolution;
+        touch();
+        emitEvent({ type: "conflict:resolved", conflictId: id, resolution, automatic: false });
+        return true;
       },
-      upsertQuestion(q: SnapshotIn<typeof OpenQuestion>) {
-        upsertMapItem(self.questions, q, "question");
+
+      /**
+       * Update the contradiction policy.
+       * @throws Error if `detectors` names an unregistered detector
+       */
+      setContradictionPolicy(patch: Partial<SnapshotIn<typeof ContradictionPolicy>>) {
+        const unknown = patch.detectors?.find((name) => !contradictionDetectors.has(name));
+        if (unknown !== undefined) {
+          throw new Error(`Unknown contradiction detector "${unknown}"`);
+        }
+        Object.assign(self.contradictionPolicy, patch);
+        touch();
       },
-      upsertDecision(d: SnapshotIn<typeof Decision>) {
-        upsertMapItem(self.decisions, d, "decision");
+
+      /**
+       * Update the assumption policy. Does not reevaluate existing assumptions.
+       * @throws Error if `rule` names an unregistered update rule
+       */
+      setAssumptionPolicy(patch: Partial<SnapshotIn<typeof AssumptionPolicy>>) {
+        if (patch.rule !== undefined && !assumptionUpdateRules.has(patch.rule)) {
+          throw new Error(`Unknown assumption update rule "${patch.rule}"`);
+        }
+        Object.assign(self.assumptionPolicy, patch);
+        touch();
       },
 
       /** ---- Lanes ---- */
@@ -1356,15 +5286,17 @@ export const ActiveMetaContext = types
       },
 
       /** ---- Lane Refresh ---- */
-      refreshLaneSelection(laneId: string) {
+      /** Re-select a lane's items; with `query`, items similar to it score higher. */
+      refreshLaneSelection(laneId: string, opts?: { query?: string }) {
         const lane = self.lanes.get(laneId);
         if (!lane) return;
         let selected: SnapshotIn<typeof ContextItemRef>[] = [];
         if (lane.status !== "enabled") {
           lane.window.setSelected([]);
         } else {
-          selected = buildCandidatesForLane(lane);
-          lane.window.setSelected(selected);
+          const built = buildCandidatesForLane(lane, opts?.query);
+          selected = built.selected;
+          lane.window.setSelected(selected, built.report);
         }
         touch();
         emitEvent({
@@ -1377,10 +5309,13 @@ export const ActiveMetaContext = types
             score: s.score ?? 0,
             pinned: s.pinned ?? false,
           })),
+          redundant: lane.window.report.redundant,
+          tokens: lane.window.report.tokens,
+          unmetQuotas: lane.window.report.unmetQuotas,
         });
       },
 
-      refreshAllLanes() {
+      refreshAllLanes(opts?: { query?: string }) {
         const laneIds: string[] = [];
         let totalSelected = 0;
         for (const lane of self.lanes.values()) {
@@ -1389,8 +5324,8 @@ export const ActiveMetaContext = types
             lane.window.setSelected([]);
             continue;
           }
-          const selected = buildCandidatesForLane(lane);
-          lane.window.setSelected(selected);
+          const { selected, report } = buildCandidatesForLane(lane, opts?.query);
+          lane.window.setSelected(selected, report);
           totalSelected += selected.length;
         }
         touch();
@@ -1406,7 +5341,8 @@ export const ActiveMetaContext = types
        * - takes enabled lane selections
        * - unions them (dedupe by kind+id)
        * - sorts by pinned then score
-       * - applies activeWindow.policy.maxItems cap
+       * - applies activeWindow.policy.maxItems cap (and its tokenBudget / kindQuotas / diversity,
+       *   keeping pinned items)
        */
       mergeLanesToActiveWindow() {
         const enabled = Array.from(self.lanes.values()).filter((l) => l.status === "enabled");
@@ -1425,10 +5361,27 @@ export const ActiveMetaContext = types
           return (b.score ?? 0) - (a.score ?? 0);
         });
 
-        const cap = self.activeWindow.policy.maxItems;
-        const capped = merged.slice(0, Math.max(0, cap));
+        const policy = self.activeWindow.policy;
+        let capped = merged.slice(0, Math.max(0, policy.maxItems));
+        let report: SelectionReport | undefined;
+        if (
+          policy.tokenBudget !== undefined ||
+          policy.kindQuotas.size ||
+          policy.diversity === "mmr"
+        ) {
+          const pinned = merged.filter((r) => r.pinned);
+          const chosen = pickWithQuotas(
+            policy,
+            merged.filter((r) => !r.pinned),
+            Math.max(0, policy.maxItems - pinned.length),
+            pinned,
+            makeTokenCost(),
+          );
+          capped = [...pinned, ...chosen.picked];
+          report = chosen.report;
+        }
 
-        self.activeWindow.setSelected(capped);
+        self.activeWindow.setSelected(capped, report);
         touch();
         emitEvent({
           type: "activeWindow:merged",
@@ -1440,6 +5393,8 @@ export const ActiveMetaContext = types
             score: s.score ?? 0,
             pinned: s.pinned ?? false,
           })),
+          tokens: report?.tokens,
+          unmetQuotas: report?.unmetQuotas,
         });
       },
 
@@ -1450,16 +5405,23 @@ export const ActiveMetaContext = types
        * - archives selection + snapshot
        * - optionally prunes raw items (archives statuses for non-evidence kinds)
        */
-      synthesizeWorkingMemory(options?: { tokenBudget?: number; archiveRawItems?: boolean }) {
+      synthesizeWorkingMemory(options?: {
+        tokenBudget?: number;
+        archiveRawItems?: boolean;
+        /** Recorded on `workingMemory.query`; pass the query the selection was made for */
+        query?: string;
+      }) {
         const tokenBudget = options?.tokenBudget ?? 600; // a "small" working memory note
         const archiveRawItems = options?.archiveRawItems ?? false;
 
         const selected = self.activeWindow.selected.map((x) => getSnapshot(x));
-        const wm = makeWorkingMemory(selected, tokenBudget);
+        const { text: wm, redactions } = makeWorkingMemory(selected, tokenBudget);
 
         const archiveId = archiveSelectedRefs(selected, wm);
 
         self.workingMemory.text = wm;
+        self.workingMemory.redactions = redactions;
+        self.workingMemory.query = options?.query;
         self.workingMemory.updatedAt = new Date().toISOString();
         self.workingMemory.lastArchiveId = archiveId;
 
@@ -1490,8 +5452,13 @@ export const ActiveMetaContext = types
       /**
        * Convenience: refresh lanes -> merge -> synthesize
        */
-      synthesizeFromLanes(options?: { tokenBudget?: number; archiveRawItems?: boolean }) {
-        this.refreshAllLanes();
+      synthesizeFromLanes(options?: {
+        tokenBudget?: number;
+        archiveRawItems?: boolean;
+        /** What the LLM is about to be asked; items similar to it are preferred */
+        query?: string;
+      }) {
+        this.refreshAllLanes({ query: options?.query });
         this.mergeLanesToActiveWindow();
         this.synthesizeWorkingMemory(options);
       },
@@ -1508,18 +5475,52 @@ export const ActiveMetaContext = types
           assumptions: [] as string[],
           evidence: [] as string[],
           questions: [] as string[],
+          resolvedQuestions: [] as string[],
           decisions: [] as string[],
         };
 
+        // custom kinds, keyed by kind
+        const custom: Record<string, string[]> = {};
+        // history of selected decisions that replaced earlier ones, oldest first
+        const decisionChains: Array<{
+          head: string;
+          chain: Array<{ id: string; statement: string; status: DecisionStatus }>;
+        }> = [];
+
+        // selected items whose confidence or severity has decayed
+        const decay: Array<{ kind: KnowledgeObjectKind; id: string } & DecayedValues> = [];
+        const redactor = makeRedactor();
+
         for (const r of items) {
-          const text = self.summarizeRef(r.kind, r.id);
+          const text = redactor.summary(r.kind, r.id);
           if (!text) continue;
+          const decayed = self.getDecayedValues(r.kind, r.id);
+          if (decayed) decay.push({ kind: r.kind, id: r.id, ...decayed });
           if (r.kind === "goal") byKind.goals.push(text);
           else if (r.kind === "constraint") byKind.constraints.push(text);
           else if (r.kind === "assumption") byKind.assumptions.push(text);
           else if (r.kind === "evidence") byKind.evidence.push(text);
-          else if (r.kind === "question") byKind.questions.push(text);
-          else if (r.kind === "decision") byKind.decisions.push(text);
+          else if (r.kind === "question") {
+            const q = self.questions.get(r.id);
+            if (q?.isResolved && q.answer)
+              byKind.resolvedQuestions.push(
+                `${text} → ${redactor.apply(r.kind, r.id, q.answer.summary)}`,
+              );
+            else byKind.questions.push(text);
+          } else if (r.kind === "decision") {
+            byKind.decisions.push(text);
+            const chain = self.getDecisionChain(r.id);
+            if (chain.length > 1) {
+              decisionChains.push({
+                head: r.id,
+                chain: chain.map((d) => ({
+                  id: d.id,
+                  statement: redactor.apply("decision", d.id, d.statement),
+                  status: d.status,
+                })),
+              });
+            }
+          } else (custom[r.kind] ??= []).push(text);
         }
 
         return {
@@ -1530,6 +5531,8 @@ export const ActiveMetaContext = types
             text: self.workingMemory.text,
             updatedAt: self.workingMemory.updatedAt,
             lastArchiveId: self.workingMemory.lastArchiveId,
+            redactions: self.workingMemory.redactions,
+            query: self.workingMemory.query,
           },
           selectedCount: items.length,
           goals: byKind.goals,
@@ -1537,7 +5540,14 @@ export const ActiveMetaContext = types
           assumptions: byKind.assumptions,
           evidence: byKind.evidence,
           questions: byKind.questions,
+          resolvedQuestions: byKind.resolvedQuestions,
           decisions: byKind.decisions,
+          decisionChains,
+          conflicts: self.getOpenConflictLines(items, redactor.summary),
+          decay,
+          custom,
+          // what redaction rules masked in the lists above
+          redactions: redactor.report(),
         };
       },
 
@@ -1548,7 +5558,34 @@ export const ActiveMetaContext = types
         e: SnapshotIn<typeof Evidence>,
         opts?: { synthesize?: boolean; tokenBudget?: number },
       ) {
-        upsertMapItem(self.evidence, e, "evidence");
+        // re-ingesting an existing ID is an update, never a duplicate
+        const match =
+          self.dedupPolicy.enabled && !self.evidence.has(e.id)
+            ? self.findNearDuplicateEvidence(e.summary, e.id)
+            : undefined;
+        let dedup: EvidenceIngestedEvent["dedup"];
+
+        if (match && self.dedupPolicy.mode === "merge") {
+          const existing = self.evidence.get(match.id)!;
+          const before = itemSnapshot(existing);
+          withOwnRevision("evidence", match.id, () => existing.recordOccurrence());
+          touch();
+          emitUpserted("evidence", match.id, before, itemSnapshot(existing), undefined);
+          dedup = { action: "merged", duplicateOf: match.id, similarity: match.similarity };
+        } else if (match) {
+          upsertMapItem(
+            self.evidence,
+            { ...e, status: "superseded", statusReason: `duplicate of ${match.id}` },
+            "evidence",
+          );
+          linkRefs({ kind: "evidence", id: e.id }, "duplicateOf", {
+            kind: "evidence",
+            id: match.id,
+          });
+          dedup = { action: "linked", duplicateOf: match.id, similarity: match.similarity };
+        } else {
+          upsertMapItem(self.evidence, e, "evidence");
+        }
 
         // Call synchronous actions directly in the flow
         // Type assertion needed to access sibling actions within a flow
@@ -1576,8 +5613,9 @@ export const ActiveMetaContext = types
         // Emit evidence:ingested event
         emitEvent({
           type: "evidence:ingested",
-          evidenceId: e.id,
+          evidenceId: dedup?.action === "merged" ? dedup.duplicateOf : e.id,
           synthesized: didSynthesize,
+          ...(dedup && { dedup }),
         });
       }),
     };